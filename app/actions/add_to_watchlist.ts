@@ -0,0 +1,85 @@
+"use server";
+
+import { auth } from "@/auth";
+import { isRepositoryName } from "@/lib/github-api";
+import { canReadRepository } from "@/lib/github-token";
+import {
+  watchRepository,
+  type WatchedRepository,
+  type WatchSchedule,
+} from "@/lib/watchlist";
+
+/**
+ * Add a repository to the signed-in user's watchlist, to be rescanned on a
+ * schedule by the server. Failures are returned as
+ * `{ success: false, error }` rather than thrown, like `controlScan`.
+ *
+ * Rescans run with the server's credentials, which may see repositories
+ * the user cannot, so the user's own token must be able to read the
+ * repository; `runDueRescans` checks again before every rescan.
+ *
+ * @example
+ * const res = await addToWatchlist('owner', 'repo', { mode: 'archive', schedule: 'daily' });
+ *
+ * @param {string} owner - GitHub repository owner (user or org).
+ * @param {string} repo - Repository name.
+ * @param {object} options - How and how often to scan.
+ * @param {string} [options.ref] - Branch, tag or SHA; the default branch
+ *   when empty.
+ * @param {"api" | "archive"} options.mode - Scan mode.
+ * @param {WatchSchedule} options.schedule - `daily` or `weekly`.
+ * @returns {Promise<{ success: boolean; error?: string }>} Resolves with
+ *   `success: false` when signed out, when the user cannot read the
+ *   repository or is already watching it.
+ */
+export async function addToWatchlist(
+  owner: string,
+  repo: string,
+  options: {
+    ref?: string;
+    mode: WatchedRepository["mode"];
+    schedule: WatchSchedule;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return { success: false, error: "Sign in to watch repositories" };
+  }
+  if (!owner.trim() || !repo.trim()) {
+    return {
+      success: false,
+      error: "A repository owner and name are required",
+    };
+  }
+  if (!isRepositoryName(owner.trim(), repo.trim())) {
+    return { success: false, error: "Invalid repository owner or name" };
+  }
+
+  if (
+    !(await canReadRepository(owner.trim(), repo.trim(), session.accessToken))
+  ) {
+    return {
+      success: false,
+      error: `Repository ${owner}/${repo} not found or not accessible`,
+    };
+  }
+
+  try {
+    await watchRepository({
+      userId,
+      owner: owner.trim(),
+      repo: repo.trim(),
+      ref: options.ref?.trim(),
+      mode: options.mode === "api" ? "api" : "archive",
+      schedule: options.schedule === "weekly" ? "weekly" : "daily",
+    });
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to watch repository",
+    };
+  }
+}
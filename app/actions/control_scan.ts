@@ -0,0 +1,40 @@
+"use server";
+
+import { getRunningScan } from "@/lib/scan-control";
+
+/**
+ * Pause, resume or cancel a scan started through the `/api/scan` route.
+ *
+ * A paused scan stops between files (or commits, for history scans) until
+ * it is resumed. A cancelled scan stops fetching and still streams the
+ * findings gathered so far as a result marked `incomplete`. Like
+ * `createGitHubIssueServerAction`, failures are returned as
+ * `{ success: false, error }` rather than thrown.
+ *
+ * @example
+ * const res = await controlScan(scanId, 'cancel');
+ * if (!res.success) console.error(res.error);
+ *
+ * @param {string} scanId - Id from the scan's `started` event.
+ * @param {"pause" | "resume" | "cancel"} action - What to do.
+ * @returns {Promise<{ success: boolean; error?: string }>} Resolves with
+ *   `success: false` when the scan is not running (anymore).
+ */
+export async function controlScan(
+  scanId: string,
+  action: "pause" | "resume" | "cancel"
+): Promise<{ success: boolean; error?: string }> {
+  const scan = getRunningScan(scanId);
+  if (!scan) {
+    return { success: false, error: "The scan is no longer running" };
+  }
+
+  if (action === "cancel") {
+    scan.controller.abort();
+  } else if (action === "pause") {
+    scan.pause.pause();
+  } else {
+    scan.pause.resume();
+  }
+  return { success: true };
+}
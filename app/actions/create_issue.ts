@@ -2,15 +2,71 @@
 
 import { auth } from "@/auth";
 import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { getUserCredentials } from "@/lib/github-token";
+import {
+  isRepositoryName,
+  type ScanResult,
+  type SecretMatch,
+} from "@/lib/github-api";
+import { fingerprintSecret } from "@/lib/baseline";
+import { diffFindings } from "@/lib/scan-diff";
+import {
+  ALERT_ISSUE_LABELS,
+  ALERT_ISSUE_TITLE,
+  alertIssueHeader,
+  alertIssueTitle,
+  describeIssueChanges,
+  parseAlertIssue,
+  toIssueFinding,
+  tracksAlertIssue,
+  type IssueFinding,
+} from "@/lib/alert-issue";
+import {
+  REMEDIATION_RESOURCES,
+  REMEDIATION_STEPS,
+} from "@/constants/remediation";
 
-export interface SecretMatch {
-  file: string;
-  line: number;
-  content: string;
-  type: string;
-  name: string;
-  description: string;
-  severity: "low" | "medium" | "high" | "critical";
+export type { SecretMatch };
+
+/** What `createGitHubIssueServerAction` did with the alert issue. */
+export type AlertIssueAction =
+  | "created"
+  | "updated"
+  | "unchanged"
+  | "closed"
+  | "none";
+
+/**
+ * Find the open alert issue the scanner keeps for a ref of a repository,
+ * among the open issues carrying its first label.
+ */
+async function findAlertIssue(
+  issues: string,
+  headers: Record<string, string>,
+  ref: string
+): Promise<{ number: number; url: string; findings: IssueFinding[] } | null> {
+  for (let page = 1; ; page++) {
+    const response = await fetchWithRetry(
+      `${issues}?state=open&labels=${ALERT_ISSUE_LABELS[0]}&per_page=100&page=${page}`,
+      { headers }
+    );
+    const data: {
+      number: number;
+      html_url: string;
+      body: string | null;
+      pull_request?: unknown;
+    }[] = await response.json();
+
+    for (const issue of data) {
+      const findings = issue.pull_request
+        ? null
+        : parseAlertIssue(issue.body, ref);
+      if (findings) {
+        return { number: issue.number, url: issue.html_url, findings };
+      }
+    }
+    if (data.length < 100) return null;
+  }
 }
 
 /**
@@ -19,34 +75,96 @@ export interface SecretMatch {
  * This is a server-side action that authenticates via the `auth()` helper to
  * obtain a GitHub access token. If no token is available the function returns
  * `{ success: false, error: 'GitHub token required to create issues' }` and
- * does not attempt to create an issue.
+ * does not attempt to create an issue. When the GitHub App is installed on
+ * the repository and the user can push to it, the issue is opened with its
+ * installation token (see `getUserCredentials`) and attributed to the app
+ * rather than the user.
  *
  * The function groups the provided `secrets` by type, builds a Markdown
  * formatted issue body with findings and recommended remediation steps, and
  * posts it to the repository's issues endpoint using `fetchWithRetry`.
  *
+ * For complete scans of a branch or tag (see `tracksAlertIssue`), the
+ * scanner keeps a single alert issue per ref. Its body starts with a hidden
+ * marker naming the ref and recording the fingerprint (see
+ * `fingerprintSecret`), file, line, name and severity of every finding it
+ * lists, see `alertIssueHeader`. When an open issue labelled `security`
+ * with the ref's marker exists, it is updated instead of opening a new one:
+ * its body is replaced with the current findings and, when findings were
+ * added or resolved since, a comment lists them (see
+ * `describeIssueChanges`). Once no findings remain the issue is commented on
+ * and closed; without an open issue and without findings nothing is done.
+ * Other scans only ever open a new issue, without the marker.
+ *
  * @param {string} owner - Repository owner (user or organization).
  * @param {string} repo - Repository name.
- * @param {SecretMatch[]} secrets - Array of detected secret matches to include in the issue.
- * @returns {Promise<{ success: boolean; issueUrl?: string; error?: string }>} Resolves
- *   with an object containing `success` and, on success, the created
- *   `issueUrl`. On failure returns `success: false` and an `error` message.
+ * @param {SecretMatch[]} secrets - Every current finding of the scan,
+ *   including those a baseline already knows, to include in the issue.
+ * @param {{ ref: string; commitSha: string; mode?: ScanResult["mode"]; incomplete?: string }} [scanned] -
+ *   The ref and exact commit SHA that were scanned, recorded in the issue so
+ *   the findings can be reproduced, and the scan's mode and `incomplete`
+ *   reason, which decide whether it maintains the ref's alert issue.
+ * @param {{ source: string; existing: number; resolved: number }} [baseline] -
+ *   Baseline the scan was compared against; the issue marks the findings it
+ *   already knows and records how many were resolved.
+ * @returns {Promise<{ success: boolean; issueUrl?: string; action?: AlertIssueAction; error?: string }>} Resolves
+ *   with an object containing `success` and, on success, the `issueUrl` of
+ *   the alert issue and the `action` taken on it (`"none"` when there was no
+ *   issue and nothing to report). On failure returns `success: false` and an
+ *   `error` message.
  * @example
  * const res = await createGitHubIssueServerAction('my-org', 'my-repo', matches);
- * if (res.success) console.log('Created issue at', res.issueUrl);
+ * if (res.success) console.log(`Issue ${res.action}:`, res.issueUrl);
  */
 
 export async function createGitHubIssueServerAction(
   owner: string,
   repo: string,
-  secrets: SecretMatch[]
-): Promise<{ success: boolean; issueUrl?: string; error?: string }> {
+  secrets: SecretMatch[],
+  scanned?: {
+    ref: string;
+    commitSha: string;
+    mode?: ScanResult["mode"];
+    incomplete?: string;
+  },
+  baseline?: { source: string; existing: number; resolved: number }
+): Promise<{
+  success: boolean;
+  issueUrl?: string;
+  action?: AlertIssueAction;
+  error?: string;
+}> {
+  if (!isRepositoryName(owner, repo)) {
+    return { success: false, error: "Invalid repository owner or name" };
+  }
   const session = await auth();
-  const token = session?.accessToken;
 
-  if (!token) {
+  if (!session?.accessToken) {
     return { success: false, error: "GitHub token required to create issues" };
   }
+  const { token } = await getUserCredentials(
+    owner,
+    repo,
+    session.accessToken,
+    "write"
+  );
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: "application/vnd.github+json",
+  };
+  const issues = `https://api.github.com/repos/${owner}/${repo}/issues`;
+  const tracked = scanned && tracksAlertIssue(scanned) ? scanned.ref : null;
+
+  const findings = await Promise.all(
+    secrets.map(async (secret) =>
+      toIssueFinding({
+        ...secret,
+        fingerprint:
+          secret.fingerprint ??
+          (await fingerprintSecret(secret, `${owner}/${repo}`)),
+      })
+    )
+  );
 
   // 🧩 Group secrets by type
   const secretsByType = secrets.reduce((acc, secret) => {
@@ -61,9 +179,9 @@ export async function createGitHubIssueServerAction(
       const tableRows = matches
         .map(
           (m) =>
-            `| \`${m.file}\` | ${
-              m.description
-            } | **${m.severity.toUpperCase()}** |`
+            `| \`${m.file}\`${
+              m.baseline === "existing" ? " (baseline)" : ""
+            } | ${m.description} | **${m.severity.toUpperCase()}** |`
         )
         .join("\n");
 
@@ -76,13 +194,21 @@ ${tableRows}
     })
     .join("\n\n");
 
+  const scannedSummary = scanned
+    ? `- **Scanned ref**: \`${scanned.ref}\` at commit \`${scanned.commitSha}\`\n`
+    : "";
+  const baselineSummary = baseline
+    ? `- **Baseline**: compared with \`${baseline.source}\`; ${baseline.existing} match(es) already known from it, ${baseline.resolved} resolved\n`
+    : "";
+  const header = tracked ? `${alertIssueHeader(tracked, findings)}\n` : "";
+
   // 🧾 Full issue body
-  const body = `## Security Alert: Potential Secrets Detected
+  const body = `${header}## ${ALERT_ISSUE_TITLE}
 
 This repository appears to contain potential API keys, tokens, or other sensitive information that should not be committed to version control.
 
 ### Findings Summary
-- **Total matches**: ${secrets.length}
+${scannedSummary}${baselineSummary}- **Total matches**: ${secrets.length}
 - **Types detected**: ${Object.keys(secretsByType).join(", ")}
 
 ---
@@ -94,16 +220,14 @@ ${tableSection}
 ---
 
 ### Recommended Actions
-1. **Rotate all exposed credentials** immediately.
-2. **Remove secrets from git history** using \`git filter-branch\` or \`BFG Repo-Cleaner\`.
-3. **Move secrets to environment variables** or a secret manager (e.g., GitHub Secrets, AWS Secrets Manager).
-4. **Enable secret scanning** in repository settings.
-5. **Review recent commits** for any unauthorized access.
+${REMEDIATION_STEPS.map(
+  ({ action, detail }, index) => `${index + 1}. **${action}** ${detail}`
+).join("\n")}
 
 ### Resources
-- [GitHub Secret Scanning](https://docs.github.com/en/code-security/secret-scanning)
-- [Removing sensitive data from git](https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/removing-sensitive-data-from-a-repository)
-- [BFG Repo-Cleaner](https://rtyley.github.io/bfg-repo-cleaner/)
+${REMEDIATION_RESOURCES.map(({ title, url }) => `- [${title}](${url})`).join(
+  "\n"
+)}
 
 ---
 
@@ -111,36 +235,80 @@ ${tableSection}
 `;
 
   try {
-    const response = await fetchWithRetry(
-      `https://api.github.com/repos/${owner}/${repo}/issues`,
-      {
+    const existing = tracked
+      ? await findAlertIssue(issues, headers, tracked)
+      : null;
+
+    if (!existing) {
+      if (secrets.length === 0) return { success: true, action: "none" };
+
+      const response = await fetchWithRetry(issues, {
         method: "POST",
-        headers: {
-          Authorization: `token ${token}`,
-          Accept: "application/vnd.github+json",
-        },
+        headers,
         body: JSON.stringify({
-          title: "Security Alert: Potential Secrets Detected",
+          title: tracked ? alertIssueTitle(tracked) : ALERT_ISSUE_TITLE,
           body,
-          labels: ["security", "bug"],
+          labels: ALERT_ISSUE_LABELS,
         }),
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        if (
+          response.status === 410 ||
+          errText.includes("Issues are disabled")
+        ) {
+          return {
+            success: false,
+            error:
+              "Issues are disabled for this repository. Please enable GitHub Issues to allow automated reporting.",
+          };
+        }
+        throw new Error(`GitHub API Error: ${response.status} ${errText}`);
       }
+
+      const issue = await response.json();
+      return { success: true, issueUrl: issue.html_url, action: "created" };
+    }
+
+    const diff = diffFindings(existing.findings, findings);
+    const changes = describeIssueChanges(
+      diff,
+      scanned
+        ? `\`${scanned.ref}\` at \`${scanned.commitSha.slice(0, 7)}\``
+        : undefined
     );
+    const comment = (text: string) =>
+      fetchWithRetry(`${issues}/${existing.number}/comments`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ body: text }),
+      });
 
-    if (!response.ok) {
-      const errText = await response.text();
-      if (response.status === 410 || errText.includes("Issues are disabled")) {
-        return {
-          success: false,
-          error:
-            "Issues are disabled for this repository. Please enable GitHub Issues to allow automated reporting.",
-        };
-      }
-      throw new Error(`GitHub API Error: ${response.status} ${errText}`);
+    if (secrets.length === 0) {
+      await comment(
+        `${changes}\n\nNo potential secrets remain, closing this issue.`
+      );
+      await fetchWithRetry(`${issues}/${existing.number}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ state: "closed", state_reason: "completed" }),
+      });
+      return { success: true, issueUrl: existing.url, action: "closed" };
     }
 
-    const issue = await response.json();
-    return { success: true, issueUrl: issue.html_url };
+    await fetchWithRetry(`${issues}/${existing.number}`, {
+      method: "PATCH",
+      headers,
+      body: JSON.stringify({ body }),
+    });
+    const changed = diff.added.length > 0 || diff.resolved.length > 0;
+    if (changed) await comment(changes);
+    return {
+      success: true,
+      issueUrl: existing.url,
+      action: changed ? "updated" : "unchanged",
+    };
   } catch (error) {
     if (process.env.NODE_ENV === "development") {
       console.error("Error creating GitHub issue:", error);
@@ -0,0 +1,52 @@
+"use server";
+
+import { auth } from "@/auth";
+import { buildReport } from "@/lib/report";
+import { renderPdfReport } from "@/lib/pdf-report";
+import { getScan } from "@/lib/scan-store";
+
+/** Most findings a PDF report lists; larger reports are for CSV or JSON. */
+const MAX_PDF_FINDINGS = 2000;
+
+/**
+ * Render the PDF audit report of a stored scan on the server.
+ *
+ * The report is built from the signed-in user's scan history (see
+ * `getScan`), with secrets masked as in every report, rather than from data
+ * sent by the browser, so the server only renders reports of real scans.
+ * Scans with more than `MAX_PDF_FINDINGS` findings are refused to bound the
+ * work per request. The PDF is returned base64 encoded to keep the action's
+ * result plain JSON.
+ *
+ * @example
+ * const res = await generatePdfReport(scanId);
+ * if (res.success) downloadFile('report.pdf', decode(res.pdf), 'application/pdf');
+ *
+ * @param {string} scanId - Id of the stored scan to report on.
+ * @returns {Promise<{ success: boolean; pdf?: string; error?: string }>}
+ *   Resolves with the PDF file, base64 encoded, on success.
+ */
+export async function generatePdfReport(
+  scanId: string
+): Promise<{ success: boolean; pdf?: string; error?: string }> {
+  const session = await auth();
+  const userId = session?.user?.id;
+
+  if (!userId) {
+    return { success: false, error: "Sign in to create PDF reports" };
+  }
+  const result = (await getScan(scanId, userId))?.result;
+  if (!result) {
+    return { success: false, error: "Scan not found in your scan history" };
+  }
+
+  const report = buildReport(result);
+  if (report.findings.length > MAX_PDF_FINDINGS) {
+    return {
+      success: false,
+      error: `PDF reports are limited to ${MAX_PDF_FINDINGS} findings; download the CSV or JSON report instead`,
+    };
+  }
+  const pdf = await renderPdfReport(report);
+  return { success: true, pdf: pdf.toString("base64") };
+}
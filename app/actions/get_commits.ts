@@ -0,0 +1,148 @@
+"use server";
+
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { assertRepositoryName, GitHubAPIError } from "@/lib/github-api";
+import { getGitHubToken } from "@/lib/github-token";
+
+export interface CommitSummary {
+  sha: string;
+  author: string;
+  date: string;
+  message: string;
+  parents: number;
+}
+
+export interface CommitFile {
+  filename: string;
+  status: string;
+  patch?: string;
+}
+
+export interface CommitDetails extends CommitSummary {
+  files: CommitFile[];
+}
+
+interface GitHubCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string } | null;
+  };
+  author: { login: string } | null;
+  parents: { sha: string }[];
+  files?: CommitFile[];
+}
+
+function toSummary(commit: GitHubCommit): CommitSummary {
+  return {
+    sha: commit.sha,
+    author:
+      commit.author?.login ?? commit.commit.author?.name ?? "unknown author",
+    date: commit.commit.author?.date ?? "",
+    message: commit.commit.message,
+    parents: commit.parents.length,
+  };
+}
+
+/**
+ * List the commits reachable from a ref, newest first.
+ *
+ * Pages through the GitHub "list commits" endpoint 100 commits at a time
+ * until the history is exhausted or `maxCommits` commits have been
+ * collected. `since` and `until` are passed through to GitHub and bound the
+ * walk by commit date.
+ *
+ * @example
+ * const commits = await getCommits('owner', 'repo', { since: '2024-01-01T00:00:00Z', maxCommits: 200 });
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {{ ref?: string; since?: string; until?: string; maxCommits?: number }} [options={}] -
+ *   Starting ref (defaults to the default branch), ISO 8601 date bounds and a
+ *   maximum number of commits.
+ * @returns {Promise<CommitSummary[]>} Resolves with the commits in the range.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function getCommits(
+  owner: string,
+  repo: string,
+  options: {
+    ref?: string;
+    since?: string;
+    until?: string;
+    maxCommits?: number;
+  } = {}
+): Promise<CommitSummary[]> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+  const maxCommits = options.maxCommits ?? Number.POSITIVE_INFINITY;
+  const commits: CommitSummary[] = [];
+
+  for (let page = 1; commits.length < maxCommits; page++) {
+    const params = new URLSearchParams({
+      per_page: "100",
+      page: String(page),
+    });
+    if (options.ref) params.set("sha", options.ref);
+    if (options.since) params.set("since", options.since);
+    if (options.until) params.set("until", options.until);
+
+    const response = await fetchWithRetry(
+      `https://api.github.com/repos/${owner}/${repo}/commits?${params}`,
+      {
+        headers: {
+          Accept: "application/vnd.github.v3+json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new GitHubAPIError(response.status, "Failed to list commits");
+    }
+
+    const data: GitHubCommit[] = await response.json();
+    commits.push(...data.map(toSummary));
+    if (data.length < 100) break;
+  }
+
+  return commits.slice(0, maxCommits);
+}
+
+/**
+ * Fetch a single commit together with the per-file patches it introduced.
+ *
+ * GitHub omits `patch` for binary files and for diffs that are too large to
+ * render, and returns at most 300 files per commit.
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} sha - Commit SHA.
+ * @returns {Promise<CommitDetails>} Resolves with the commit and its files.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function getCommit(
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<CommitDetails> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+
+  const response = await fetchWithRetry(
+    `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`,
+    {
+      headers: {
+        Accept: "application/vnd.github.v3+json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new GitHubAPIError(response.status, "Failed to fetch commit");
+  }
+
+  const data: GitHubCommit = await response.json();
+  return { ...toSummary(data), files: data.files ?? [] };
+}
@@ -2,14 +2,14 @@
 
 import { fetchWithRetry } from "@/lib/fetch_with_retries"; // adjust path
 import { GitHubAPIError } from "@/lib/github-api";
-import { auth } from "@/auth";
+import { getGitHubToken } from "@/lib/github-token";
 
 /**
  * Fetch the raw file content from a GitHub file download URL.
  *
- * This function authenticates via the server-side `auth()` helper to obtain
- * an access token (if available) and sends it as a Bearer token when
- * requesting the file. The underlying request uses `fetchWithRetry` which
+ * The token of `getGitHubToken` (if any) is sent as a Bearer token when
+ * requesting the file, so scans run with a GitHub App installation token
+ * can read private repositories the app is installed on. The underlying request uses `fetchWithRetry` which
  * implements retry logic and basic rate-limit handling.
  *
  * @example
@@ -18,20 +18,24 @@ import { auth } from "@/auth";
  *
  * @param {string} downloadUrl - The raw/download URL for the file (usually
  *   provided as `download_url` from the GitHub API).
+ * @param {AbortSignal} [signal] - Aborts the request (server-side callers).
  * @returns {Promise<string>} Resolves with the file's text content.
  * @throws {GitHubAPIError} Throws a `GitHubAPIError` when the request fails or
  *   when the response is not OK. In development mode, non-GitHubAPIError
  *   exceptions are logged before rethrowing a generic `GitHubAPIError`.
  */
-export async function getFileContent(downloadUrl: string): Promise<string> {
-  const session = await auth();
-  const token = session?.accessToken;
+export async function getFileContent(
+  downloadUrl: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const token = await getGitHubToken();
 
   try {
     const response = await fetchWithRetry(downloadUrl, {
       headers: {
         ...(token && { Authorization: `Bearer ${token}` }),
       },
+      signal,
     });
 
     if (!response.ok) {
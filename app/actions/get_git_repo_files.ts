@@ -1,54 +1,93 @@
 "use server";
 
 import { fetchWithRetry } from "@/lib/fetch_with_retries";
-import type { GitHubFile } from "@/lib/github-api";
-import { auth } from "@/auth";
+import { assertRepositoryName, type GitHubFile } from "@/lib/github-api";
+import { getGitHubToken } from "@/lib/github-token";
 
+interface GitTreeEntry {
+  path: string;
+  mode: string;
+  type: "blob" | "tree" | "commit";
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+interface GitTreeResponse {
+  sha: string;
+  url: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
 
 /**
-   * Fetch the list of files & directories for a repository path using the
-   * GitHub Contents API.
-   *
-   * This server-side helper obtains a GitHub access token via `auth()` (if
-   * available) and includes it as a Bearer token to increase rate limits and
-   * access private repositories when permitted. It uses `fetchWithRetry` so
-   * transient errors and rate limits are retried according to the helper's
-   * strategy.
-   *
-   * The GitHub Contents API returns either an array (for directories) or a
-   * single object (for a file). This function normalizes the result to always
-   * return an array of `GitHubFile` objects.
-   *
-   * @example
-   * const files = await getRepositoryFiles('owner', 'repo', 'src');
-   * files.forEach(f => console.log(f.path, f.type));
-   *
-   * @param {string} owner - Repository owner (user or organization).
-   * @param {string} repo - Repository name.
-   * @param {string} [path=""] - Optional path inside the repository to list.
-   * @returns {Promise<GitHubFile[]>} Resolves with an array of `GitHubFile`
-   *   objects representing files and directories at the requested path.
-   * @throws {Error} Throws when the GitHub API responds with a non-OK status
-   *   or when the network/request fails.
-   */
+ * Build the raw download URL for a file at a given ref. Raw requests are
+ * served outside the REST API and do not count against the API rate limit.
+ */
+function buildDownloadUrl(
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): string {
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${encodeURIComponent(
+    ref
+  )}/${encodedPath}`;
+}
+
+/**
+ * Fetch the list of all files in a repository at a ref using the Git Trees
+ * API.
+ *
+ * The whole tree is requested in a single call with `?recursive=1`. GitHub
+ * truncates recursive listings of very large trees (more than 100,000 entries
+ * or 7 MB of JSON); when that happens the listing falls back to paging
+ * through the tree one sub-tree at a time, requesting each sub-tree
+ * recursively and only descending further into the ones that are still
+ * truncated.
+ *
+ * Only blobs are returned: directories are implied by the file paths and
+ * submodules (`commit` entries) are skipped because their contents live in
+ * another repository. Each file carries a raw `download_url` pinned to `ref`.
+ *
+ * @example
+ * const files = await getRepositoryFiles('owner', 'repo', 'main');
+ * files.forEach(f => console.log(f.path, f.size));
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} [ref="HEAD"] - Branch, tag or commit SHA to list.
+ * @param {AbortSignal} [signal] - Aborts the listing (server-side callers).
+ * @returns {Promise<GitHubFile[]>} Resolves with every file in the tree.
+ * @throws {Error} Throws when the GitHub API responds with a non-OK status
+ *   or when the network/request fails.
+ */
 export async function getRepositoryFiles(
   owner: string,
   repo: string,
-  path = ""
+  ref = "HEAD",
+  signal?: AbortSignal
 ): Promise<GitHubFile[]> {
-  //Get GitHub access token from session
-  const session = await auth();
-  const token = session?.accessToken;
+  assertRepositoryName(owner, repo);
+  //Get GitHub access token from session, or from the job running the scan
+  const token = await getGitHubToken();
 
-  try {
+  const fetchTree = async (
+    treeSha: string,
+    recursive: boolean
+  ): Promise<GitTreeResponse> => {
     const response = await fetchWithRetry(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${path}`,
+      `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(
+        treeSha
+      )}${recursive ? "?recursive=1" : ""}`,
       {
         headers: {
           Accept: "application/vnd.github.v3+json",
           // Check if token exists before adding Authorization header
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
+        signal,
       }
     );
 
@@ -57,8 +96,60 @@ export async function getRepositoryFiles(
       throw new Error(`GitHub API error: ${response.status} ${errText}`);
     }
 
-    const data = await response.json();
-    return Array.isArray(data) ? data : [data];
+    return response.json();
+  };
+
+  const toFile = (entry: GitTreeEntry, prefix: string): GitHubFile => {
+    const path = `${prefix}${entry.path}`;
+    return {
+      name: path.split("/").pop() ?? path,
+      path,
+      type: "file",
+      size: entry.size,
+      sha: entry.sha,
+      download_url: buildDownloadUrl(owner, repo, ref, path),
+    };
+  };
+
+  try {
+    const files: GitHubFile[] = [];
+    const root = await fetchTree(ref, true);
+
+    if (!root.truncated) {
+      for (const entry of root.tree) {
+        if (entry.type === "blob") files.push(toFile(entry, ""));
+      }
+      return files;
+    }
+
+    // The recursive listing was truncated: page through the tree instead.
+    const pending: { sha: string; prefix: string }[] = [
+      { sha: root.sha, prefix: "" },
+    ];
+    while (pending.length > 0) {
+      const { sha, prefix } = pending.shift()!;
+
+      if (prefix) {
+        const subtree = await fetchTree(sha, true);
+        if (!subtree.truncated) {
+          for (const entry of subtree.tree) {
+            if (entry.type === "blob") files.push(toFile(entry, prefix));
+          }
+          continue;
+        }
+      }
+
+      const level = await fetchTree(sha, false);
+      for (const entry of level.tree) {
+        if (entry.type === "blob") {
+          files.push(toFile(entry, prefix));
+        } else if (entry.type === "tree") {
+          pending.push({ sha: entry.sha, prefix: `${prefix}${entry.path}/` });
+        }
+      }
+    }
+
+    return files;
   } catch (error) {
     console.error("Failed to fetch repository files:", error);
     throw new Error(
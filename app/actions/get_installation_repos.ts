@@ -0,0 +1,99 @@
+"use server";
+
+import { auth } from "@/auth";
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { GitHubAPIError } from "@/lib/github-api";
+
+export interface InstallationRepository {
+  id: number;
+  owner: string;
+  name: string;
+  private: boolean;
+  installationId: number;
+}
+
+/**
+ * List the repositories the GitHub App is installed on that the signed-in
+ * user can access.
+ *
+ * Uses the user's token with `GET /user/installations`, which only works
+ * when users sign in through the GitHub App itself (its client id and
+ * secret as `AUTH_GITHUB_ID` / `AUTH_GITHUB_SECRET`), not a separate OAuth
+ * app. Installations of other apps are left out.
+ *
+ * @example
+ * const repos = await getInstallationRepositories();
+ *
+ * @returns {Promise<InstallationRepository[]>} Resolves with the
+ *   repositories, empty when no app is configured or the user is signed
+ *   out.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function getInstallationRepositories(): Promise<
+  InstallationRepository[]
+> {
+  const appId = Number(process.env.GITHUB_APP_ID);
+  const session = await auth();
+  const token = session?.accessToken;
+  if (!appId || !token) return [];
+
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${token}`,
+  };
+
+  try {
+    const response = await fetchWithRetry(
+      "https://api.github.com/user/installations?per_page=100",
+      { headers }
+    );
+    const {
+      installations,
+    }: { installations: { id: number; app_id: number }[] } =
+      await response.json();
+
+    const repositories: InstallationRepository[] = [];
+    for (const installation of installations) {
+      if (installation.app_id !== appId) continue;
+      for (let page = 1; ; page++) {
+        const reposResponse = await fetchWithRetry(
+          `https://api.github.com/user/installations/${installation.id}/repositories?per_page=100&page=${page}`,
+          { headers }
+        );
+        const data: {
+          total_count: number;
+          repositories: {
+            id: number;
+            name: string;
+            private: boolean;
+            owner: { login: string };
+          }[];
+        } = await reposResponse.json();
+
+        repositories.push(
+          ...data.repositories.map((repo) => ({
+            id: repo.id,
+            owner: repo.owner.login,
+            name: repo.name,
+            private: repo.private,
+            installationId: installation.id,
+          }))
+        );
+        if (data.repositories.length < 100 || page * 100 >= data.total_count) {
+          break;
+        }
+      }
+    }
+    return repositories;
+  } catch (error) {
+    if (error instanceof GitHubAPIError) throw error;
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error fetching installation repositories:", error);
+    }
+    throw new GitHubAPIError(
+      0,
+      "Failed to fetch installation repositories",
+      false
+    );
+  }
+}
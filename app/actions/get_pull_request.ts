@@ -0,0 +1,96 @@
+"use server";
+
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { assertRepositoryName, GitHubAPIError } from "@/lib/github-api";
+import { getGitHubToken } from "@/lib/github-token";
+import type { CommitFile } from "@/app/actions/get_commits";
+
+export interface PullRequestDetails {
+  number: number;
+  title: string;
+  author: string;
+  /** Commit at the tip of the pull request's branch. */
+  headSha: string;
+  /** Commit at the tip of the branch the pull request merges into. */
+  baseSha: string;
+  updatedAt: string;
+  /** Files the pull request changes, with their patches against the base. */
+  files: CommitFile[];
+}
+
+/**
+ * Fetch a pull request together with the per-file patches of its diff.
+ *
+ * Pages through the "list pull request files" endpoint 100 files at a time.
+ * GitHub lists at most 3000 files per pull request and, as for commits,
+ * omits `patch` for binary files and diffs too large to render.
+ *
+ * @example
+ * const pr = await getPullRequest('owner', 'repo', 42);
+ * console.log(pr.headSha, pr.files.length);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {number} pullNumber - Pull request number.
+ * @returns {Promise<PullRequestDetails>} Resolves with the pull request and
+ *   its files.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function getPullRequest(
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestDetails> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+  const headers = {
+    Accept: "application/vnd.github.v3+json",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+
+  try {
+    const response = await fetchWithRetry(
+      `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}`,
+      { headers }
+    );
+    const pull: {
+      number: number;
+      title: string;
+      user: { login: string } | null;
+      head: { sha: string };
+      base: { sha: string };
+      updated_at: string;
+      changed_files: number;
+    } = await response.json();
+
+    const files: CommitFile[] = [];
+    for (let page = 1; files.length < pull.changed_files; page++) {
+      const filesResponse = await fetchWithRetry(
+        `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`,
+        { headers }
+      );
+      const data: CommitFile[] = await filesResponse.json();
+      files.push(...data);
+      if (data.length < 100) break;
+    }
+
+    return {
+      number: pull.number,
+      title: pull.title,
+      author: pull.user?.login ?? "unknown author",
+      headSha: pull.head.sha,
+      baseSha: pull.base.sha,
+      updatedAt: pull.updated_at,
+      files,
+    };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error fetching pull request:", error);
+    }
+    throw new GitHubAPIError(
+      0,
+      `Failed to fetch pull request #${pullNumber}`,
+      false
+    );
+  }
+}
@@ -0,0 +1,139 @@
+"use server";
+
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { assertRepositoryName, GitHubAPIError } from "@/lib/github-api";
+import { getGitHubToken } from "@/lib/github-token";
+
+export interface RepositoryRefs {
+  defaultBranch: string;
+  branches: string[];
+  tags: string[];
+}
+
+/**
+ * List the branches and tags of a repository for ref selection.
+ *
+ * Returns the default branch along with up to 100 branches and 100 tags
+ * (the first page of each listing), which covers the refs users typically
+ * pick from. Any other commit can still be scanned by entering its SHA.
+ *
+ * @example
+ * const { defaultBranch, branches, tags } = await getRepositoryRefs('owner', 'repo');
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @returns {Promise<RepositoryRefs>} Resolves with the default branch,
+ *   branch names and tag names.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function getRepositoryRefs(
+  owner: string,
+  repo: string
+): Promise<RepositoryRefs> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+  const headers = {
+    Accept: "application/vnd.github.v3+json",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+
+  try {
+    const [repoResponse, branchesResponse, tagsResponse] = await Promise.all([
+      fetchWithRetry(`https://api.github.com/repos/${owner}/${repo}`, {
+        headers,
+      }),
+      fetchWithRetry(
+        `https://api.github.com/repos/${owner}/${repo}/branches?per_page=100`,
+        { headers }
+      ),
+      fetchWithRetry(
+        `https://api.github.com/repos/${owner}/${repo}/tags?per_page=100`,
+        { headers }
+      ),
+    ]);
+
+    const repository: { default_branch: string } = await repoResponse.json();
+    const branches: { name: string }[] = await branchesResponse.json();
+    const tags: { name: string }[] = await tagsResponse.json();
+
+    return {
+      defaultBranch: repository.default_branch,
+      branches: branches.map((branch) => branch.name),
+      tags: tags.map((tag) => tag.name),
+    };
+  } catch (error) {
+    if (error instanceof GitHubAPIError) throw error;
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error fetching repository refs:", error);
+    }
+    throw new GitHubAPIError(0, "Failed to fetch repository refs", false);
+  }
+}
+
+/**
+ * Resolve a branch, tag or (abbreviated) commit SHA to a full commit SHA.
+ *
+ * Uses the `application/vnd.github.sha` media type, which makes GitHub
+ * return the bare SHA as text. Scanning the resolved SHA rather than the ref
+ * name guarantees every request of a scan sees the same commit and lets the
+ * results be reproduced later.
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} [ref="HEAD"] - Ref to resolve.
+ * @returns {Promise<string>} Resolves with the 40-character commit SHA.
+ * @throws {GitHubAPIError} Throws with status 404 when the ref does not
+ *   exist, and with GitHub's status (0 when GitHub cannot be reached) for
+ *   any other failure, such as a rejected token or an exhausted rate limit.
+ */
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref = "HEAD"
+): Promise<string> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+
+  // Plain fetch, so that a missing ref is told apart from other failures.
+  let response: Response;
+  try {
+    response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(
+        ref
+      )}`,
+      {
+        headers: {
+          Accept: "application/vnd.github.sha",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      }
+    );
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(`Error resolving ref ${ref}:`, error);
+    }
+    throw new GitHubAPIError(0, `Failed to resolve ${ref}`, true);
+  }
+
+  if (response.status === 404 || response.status === 422) {
+    throw new GitHubAPIError(404, `Unknown branch, tag or commit: ${ref}`);
+  }
+  if (response.status === 401) {
+    throw new GitHubAPIError(401, "GitHub rejected the access token");
+  }
+  if (response.status === 403 || response.status === 429) {
+    throw new GitHubAPIError(
+      response.status,
+      `GitHub refused to resolve ${ref}; the API rate limit may be exhausted`,
+      true
+    );
+  }
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      response.status,
+      `Failed to resolve ${ref} (HTTP ${response.status})`,
+      response.status >= 500
+    );
+  }
+  return (await response.text()).trim();
+}
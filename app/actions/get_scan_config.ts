@@ -0,0 +1,91 @@
+"use server";
+
+import { assertRepositoryName, GitHubAPIError } from "@/lib/github-api";
+import { isRepositoryPath, SCAN_CONFIG_FILES } from "@/lib/scan-config";
+import { getGitHubToken } from "@/lib/github-token";
+
+/**
+ * Read a text file from a repository at a ref, or `null` when it does not
+ * exist.
+ *
+ * Goes through the Contents API with the raw media type. A missing file is
+ * expected here and not an error, so this uses a plain `fetch` that treats
+ * 404 as `null` rather than the retrying helper.
+ *
+ * @example
+ * const toml = await getRepositoryTextFile('owner', 'repo', '.gitleaks.toml', sha);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} path - Repository-relative file path.
+ * @param {string} ref - Commit SHA (or other ref) to read the file at.
+ * @returns {Promise<string | null>} Resolves with the file content, or
+ *   `null` when the file does not exist.
+ * @throws {GitHubAPIError} Throws on errors other than "not found".
+ */
+export async function getRepositoryTextFile(
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  assertRepositoryName(owner, repo);
+  if (!isRepositoryPath(path)) {
+    throw new GitHubAPIError(400, `Invalid file path ${path}`);
+  }
+  const token = await getGitHubToken();
+
+  const response = await fetch(
+    `https://api.github.com/repos/${owner}/${repo}/contents/${path
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}?ref=${encodeURIComponent(ref)}`,
+    {
+      headers: {
+        Accept: "application/vnd.github.raw",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    }
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      response.status,
+      `Failed to read ${path} from the repository`
+    );
+  }
+  return response.text();
+}
+
+/**
+ * Fetch the scanner config file from the root of a repository at a ref.
+ *
+ * Each name in `SCAN_CONFIG_FILES` is tried in order (see
+ * `getRepositoryTextFile`). Parsing is left to the caller
+ * (`parseScanConfig`) so that validation errors reach the user with their
+ * full message.
+ *
+ * @example
+ * const file = await getScanConfigFile('owner', 'repo', sha);
+ * if (file) console.log(file.path, file.content);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} ref - Commit SHA (or other ref) to read the file at.
+ * @returns {Promise<{ path: string; content: string } | null>} Resolves with
+ *   the first config file found, or `null` when the repository has none.
+ * @throws {GitHubAPIError} Throws on errors other than "not found".
+ */
+export async function getScanConfigFile(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<{ path: string; content: string } | null> {
+  for (const path of SCAN_CONFIG_FILES) {
+    const content = await getRepositoryTextFile(owner, repo, path, ref);
+    if (content !== null) return { path, content };
+  }
+
+  return null;
+}
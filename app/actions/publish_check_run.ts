@@ -0,0 +1,113 @@
+"use server";
+
+import { auth } from "@/auth";
+import { getScanConfigFile } from "@/app/actions/get_scan_config";
+import { isRepositoryName } from "@/lib/github-api";
+import { getUserCredentials, withGitHubToken } from "@/lib/github-token";
+import { parseScanConfig } from "@/lib/scan-config";
+import { getScan } from "@/lib/scan-store";
+import {
+  publishCheckRun,
+  toCheckRun,
+  type CheckRunConclusion,
+} from "@/lib/check-run";
+
+/**
+ * Publish the findings of a stored scan as a check run on the scanned
+ * commit, with an annotation per finding and a conclusion set by the
+ * `fail_on` severity of the repository's config at that commit; see
+ * `toCheckRun`.
+ *
+ * Only GitHub Apps can create check runs, so this needs the app to be
+ * installed on the repository and a signed-in user who can push to it (see
+ * `getUserCredentials`). The findings are read from the user's scan
+ * history (see `getScan`) and the config from the commit, never from the
+ * browser, so a check cannot be made to pass by sending fewer findings.
+ * Failures are returned as `{ success: false, error }`.
+ *
+ * @example
+ * const res = await publishCheckRunServerAction('owner', 'repo', scanId, result.commitSha);
+ * if (res.success) console.log(res.conclusion, res.checkRunUrl);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} scanId - Id of the stored scan to publish.
+ * @param {string} commitSha - The scanned commit, checked against the scan.
+ * @returns {Promise<{ success: boolean; checkRunUrl?: string; conclusion?: CheckRunConclusion; error?: string }>}
+ *   Resolves with the check run's page and conclusion on success.
+ */
+export async function publishCheckRunServerAction(
+  owner: string,
+  repo: string,
+  scanId: string,
+  commitSha: string
+): Promise<{
+  success: boolean;
+  checkRunUrl?: string;
+  conclusion?: CheckRunConclusion;
+  error?: string;
+}> {
+  if (!isRepositoryName(owner, repo)) {
+    return { success: false, error: "Invalid repository owner or name" };
+  }
+  const session = await auth();
+  const userId = session?.user?.id;
+
+  if (!session?.accessToken || !userId) {
+    return { success: false, error: "GitHub token required to publish checks" };
+  }
+  const scan = await getScan(scanId, userId);
+  const result = scan?.result;
+  if (
+    !scan ||
+    !result ||
+    scan.owner !== owner ||
+    scan.repo !== repo ||
+    result.commitSha !== commitSha
+  ) {
+    return { success: false, error: "Scan not found in your scan history" };
+  }
+  // A passing check on a partial scan would let unscanned files through.
+  if (scan.status !== "completed" || result.incomplete) {
+    return {
+      success: false,
+      error: "Partial scans cannot be published as checks",
+    };
+  }
+
+  const credentials = await getUserCredentials(
+    owner,
+    repo,
+    session.accessToken,
+    "write"
+  );
+  if (!credentials.installationId || !credentials.token) {
+    return {
+      success: false,
+      error: `Check runs can only be published by the GitHub App, by users with push access to ${owner}/${repo}. Install the app on it first.`,
+    };
+  }
+
+  try {
+    const file = await withGitHubToken(credentials.token, () =>
+      getScanConfigFile(owner, repo, commitSha)
+    );
+    const failOn = file
+      ? parseScanConfig(file.content, file.path).failOn
+      : undefined;
+    const checkRun = toCheckRun(result.secrets, failOn);
+    const { checkRunUrl } = await publishCheckRun(
+      owner,
+      repo,
+      commitSha,
+      checkRun,
+      credentials.token
+    );
+    return { success: true, checkRunUrl, conclusion: checkRun.conclusion };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { auth } from "@/auth";
+import { unwatchRepository } from "@/lib/watchlist";
+
+/**
+ * Stop rescanning a repository of the signed-in user's watchlist. Its
+ * stored scans stay in the scan history.
+ *
+ * @example
+ * const res = await removeFromWatchlist(entry.id);
+ *
+ * @param {string} id - Watchlist entry id.
+ * @returns {Promise<{ success: boolean; error?: string }>} Resolves with
+ *   `success: false` when signed out or the entry does not exist.
+ */
+export async function removeFromWatchlist(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return { success: false, error: "Sign in to manage the watchlist" };
+  }
+
+  const removed = await unwatchRepository(id, userId);
+  return removed
+    ? { success: true }
+    : { success: false, error: "The repository is not on your watchlist" };
+}
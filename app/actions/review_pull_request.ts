@@ -0,0 +1,78 @@
+"use server";
+
+import { auth } from "@/auth";
+import { isRepositoryName, type SecretMatch } from "@/lib/github-api";
+import { getUserCredentials } from "@/lib/github-token";
+import {
+  reviewPullRequest,
+  type PullRequestReviewOutcome,
+} from "@/lib/pull-request-review";
+
+/**
+ * Comment on the findings of a pull-request scan, inline on the offending
+ * lines; see `reviewPullRequest`. Running it again after a rescan updates
+ * the earlier comments instead of adding new ones.
+ *
+ * Requires a signed-in user, like `createGitHubIssueServerAction`, and
+ * comments as the GitHub App when it is installed on the repository and the
+ * user can push to it (see `getUserCredentials`). Failures are returned as
+ * `{ success: false, error }`.
+ *
+ * @example
+ * const res = await reviewPullRequestServerAction('owner', 'repo', 42, result.commitSha, result.secrets);
+ * if (res.success) console.log(res.outcome.created, 'comments added');
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {number} pullNumber - Pull request number.
+ * @param {string} commitSha - The scanned head commit of the pull request.
+ * @param {SecretMatch[]} secrets - The findings of the scan.
+ * @returns {Promise<{ success: boolean; outcome?: PullRequestReviewOutcome; error?: string }>}
+ *   Resolves with what the review changed on success.
+ */
+export async function reviewPullRequestServerAction(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  commitSha: string,
+  secrets: SecretMatch[]
+): Promise<{
+  success: boolean;
+  outcome?: PullRequestReviewOutcome;
+  error?: string;
+}> {
+  if (!isRepositoryName(owner, repo)) {
+    return { success: false, error: "Invalid repository owner or name" };
+  }
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return {
+      success: false,
+      error: "GitHub token required to review pull requests",
+    };
+  }
+  const { token = session.accessToken } = await getUserCredentials(
+    owner,
+    repo,
+    session.accessToken,
+    "write"
+  );
+
+  try {
+    const outcome = await reviewPullRequest(
+      owner,
+      repo,
+      pullNumber,
+      commitSha,
+      secrets,
+      token
+    );
+    return { success: true, outcome };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
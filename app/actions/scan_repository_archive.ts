@@ -0,0 +1,164 @@
+"use server";
+
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import {
+  assertRepositoryName,
+  DEFAULT_SCAN_OPTIONS,
+  GitHubAPIError,
+  type ScanOptions,
+  type SecretMatch,
+} from "@/lib/github-api";
+import { getSkipReason, scanContent } from "@/lib/secret-detection";
+import {
+  createScanProgress,
+  type ScanProgressTracker,
+} from "@/lib/scan-progress";
+import { extractTarball } from "@/lib/tar";
+import { getGitHubToken } from "@/lib/github-token";
+
+/** Archives decompressing to more than this are not scanned (2 GiB). */
+const MAX_ARCHIVE_SIZE = 2 * 1024 * 1024 * 1024;
+
+/** The chunks of a response body, cancelling it when reading stops early. */
+async function* bodyChunks(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Scan a repository by downloading its tarball once and matching
+ * `SECRET_PATTERNS` over every entry on the server.
+ *
+ * This costs a single API request regardless of the size of the repository
+ * (the tarball endpoint redirects to `codeload.github.com`, which is not
+ * rate limited), instead of one request per file. The archive is unpacked as
+ * it downloads (see `extractTarball`) and the same file filters and limits as
+ * the per-file scanner are applied to its entries: only entries within
+ * `maxFileSize` are read into memory, and archives that decompress to more
+ * than 2 GiB are rejected. Entries containing NUL bytes are treated as
+ * binary and skipped.
+ *
+ * Server-side callers such as the `/api/scan` route can pass a `progress`
+ * tracker to follow the scan file by file, and cancel the download with
+ * `options.signal`; a cancelled download yields the findings so far.
+ *
+ * @example
+ * const matches = await scanRepositoryArchive('owner', 'repo', 'main');
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} [ref="HEAD"] - Branch, tag or commit SHA to download.
+ * @param {ScanOptions} [options={}] - Scan limits; see `ScanOptions`.
+ * @param {ScanProgressTracker} [progress] - Tracker the scan reports to.
+ * @returns {Promise<SecretMatch[]>} Resolves with the detected secrets.
+ * @throws {GitHubAPIError} Throws when the archive cannot be downloaded.
+ * @throws {RangeError} Throws when the archive is too large to scan.
+ */
+export async function scanRepositoryArchive(
+  owner: string,
+  repo: string,
+  ref = "HEAD",
+  options: ScanOptions = {},
+  progress: ScanProgressTracker = createScanProgress()
+): Promise<SecretMatch[]> {
+  assertRepositoryName(owner, repo);
+  const token = await getGitHubToken();
+  const { maxFiles, maxDepth, maxFileSize } = {
+    ...DEFAULT_SCAN_OPTIONS,
+    ...options,
+  };
+
+  let archive: ReadableStream<Uint8Array>;
+  try {
+    const response = await fetchWithRetry(
+      `https://api.github.com/repos/${owner}/${repo}/tarball/${encodeURIComponent(
+        ref
+      )}`,
+      {
+        headers: {
+          Accept: "application/vnd.github.v3+json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        signal: options.signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new GitHubAPIError(
+        response.status,
+        "Failed to download repository archive"
+      );
+    }
+
+    if (!response.body) throw new Error("Empty response body");
+    archive = response.body;
+    progress.apiCalls();
+  } catch (error) {
+    if (options.signal?.aborted) return [];
+    if (error instanceof GitHubAPIError) throw error;
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error downloading repository archive:", error);
+    }
+    throw new GitHubAPIError(0, "Failed to download repository archive");
+  }
+
+  const secrets: SecretMatch[] = [];
+  let scannedFiles = 0;
+
+  try {
+    const entries = extractTarball(bodyChunks(archive), {
+      maxEntrySize: maxFileSize,
+      maxTotalSize: MAX_ARCHIVE_SIZE,
+    });
+    for await (const entry of entries) {
+      progress.discovered(1);
+      // GitHub tarballs wrap everything in a single `owner-repo-sha/` folder.
+      const path = entry.path.split("/").slice(1).join("/");
+      const reason =
+        scannedFiles >= maxFiles
+          ? "file limit reached"
+          : getSkipReason(
+              path,
+              entry.size,
+              { maxDepth, maxFileSize },
+              options.config
+            ) ?? (entry.content?.includes(0) ? "binary file" : null);
+      if (!path || reason || !entry.content) {
+        progress.skipped(reason ?? "not a file");
+        continue;
+      }
+
+      scannedFiles++;
+      const matches = scanContent(
+        path,
+        entry.content.toString("utf8"),
+        options
+      );
+      secrets.push(...matches);
+      progress.scanned(path, entry.size, matches);
+    }
+  } catch (error) {
+    if (options.signal?.aborted) return secrets;
+    if (error instanceof RangeError) {
+      throw new RangeError(
+        "The repository archive is larger than 2 GiB uncompressed; scan it file by file instead"
+      );
+    }
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error reading repository archive:", error);
+    }
+    throw new GitHubAPIError(0, "Failed to read repository archive");
+  }
+
+  return secrets;
+}
@@ -0,0 +1,141 @@
+"use server";
+
+import { gzipSync } from "node:zlib";
+import { auth } from "@/auth";
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import {
+  GitHubAPIError,
+  isRepositoryName,
+  type ScanResult,
+} from "@/lib/github-api";
+import type { SarifLog } from "@/lib/sarif";
+
+/**
+ * Turn the ref a scan was requested for into the fully qualified ref the
+ * code-scanning API expects, e.g. `main` into `refs/heads/main`, by looking
+ * it up as a branch and then as a tag. Commit SHAs that are not the name of
+ * a branch or tag cannot be uploaded.
+ */
+async function qualifyRef(
+  owner: string,
+  repo: string,
+  ref: string,
+  token: string
+): Promise<string | null> {
+  if (ref.startsWith("refs/")) return ref;
+
+  const api = `https://api.github.com/repos/${owner}/${repo}`;
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: "application/vnd.github+json",
+  };
+  if (ref === "HEAD") {
+    const response = await fetchWithRetry(api, { headers });
+    const { default_branch }: { default_branch: string } =
+      await response.json();
+    return `refs/heads/${default_branch}`;
+  }
+
+  const path = ref.split("/").map(encodeURIComponent).join("/");
+  for (const kind of ["heads", "tags"]) {
+    // Plain fetch: a 404 is an answer here, not a failure to retry.
+    const response = await fetch(`${api}/git/ref/${kind}/${path}`, {
+      headers,
+    });
+    if (response.ok) return `refs/${kind}/${ref}`;
+    if (response.status !== 404) {
+      throw new GitHubAPIError(response.status, `Failed to look up ${ref}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Upload a SARIF log to GitHub code scanning for the scanned commit.
+ *
+ * The log is gzipped and base64 encoded as the code-scanning API requires.
+ * History scans cannot be uploaded: their findings carry the lines of older
+ * commits, which code scanning would place on `commitSha`.
+ * The token needs the `security_events` scope. Like
+ * `createGitHubIssueServerAction`, failures are returned as
+ * `{ success: false, error }` rather than thrown.
+ *
+ * @example
+ * const res = await uploadSarifServerAction('owner', 'repo', toSarif(result), { ref: 'main', commitSha });
+ * if (res.success) console.log('Analysis queued at', res.analysisUrl);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {SarifLog} sarif - Log produced by `toSarif`.
+ * @param {{ ref: string; commitSha: string; mode?: ScanResult["mode"] }} scanned -
+ *   The branch or tag and exact commit SHA that were scanned, and how.
+ * @returns {Promise<{ success: boolean; analysisUrl?: string; error?: string }>}
+ *   Resolves with the URL of the repository's code-scanning alerts on
+ *   success, or an `error` message.
+ */
+export async function uploadSarifServerAction(
+  owner: string,
+  repo: string,
+  sarif: SarifLog,
+  scanned: { ref: string; commitSha: string; mode?: ScanResult["mode"] }
+): Promise<{ success: boolean; analysisUrl?: string; error?: string }> {
+  if (!isRepositoryName(owner, repo)) {
+    return { success: false, error: "Invalid repository owner or name" };
+  }
+  const session = await auth();
+  const token = session?.accessToken;
+
+  if (!token) {
+    return {
+      success: false,
+      error: "GitHub token required to upload to code scanning",
+    };
+  }
+
+  if (scanned.mode === "history") {
+    return {
+      success: false,
+      error: "History scans cannot be uploaded to code scanning",
+    };
+  }
+
+  try {
+    const ref = await qualifyRef(owner, repo, scanned.ref, token);
+    if (!ref) {
+      return {
+        success: false,
+        error: `Code scanning results need a branch or tag; ${scanned.ref} is neither.`,
+      };
+    }
+
+    await fetchWithRetry(
+      `https://api.github.com/repos/${owner}/${repo}/code-scanning/sarifs`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `token ${token}`,
+          Accept: "application/vnd.github+json",
+        },
+        body: JSON.stringify({
+          commit_sha: scanned.commitSha,
+          ref,
+          sarif: gzipSync(JSON.stringify(sarif)).toString("base64"),
+          tool_name: sarif.runs[0]?.tool.driver.name,
+        }),
+      }
+    );
+
+    return {
+      success: true,
+      analysisUrl: `https://github.com/${owner}/${repo}/security/code-scanning`,
+    };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error uploading SARIF:", error);
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
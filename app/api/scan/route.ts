@@ -0,0 +1,138 @@
+import { auth } from "@/auth";
+import { isRepositoryName, type ScanOptions } from "@/lib/github-api";
+import type { ScanEvent } from "@/lib/scan-progress";
+import { getUserCredentials, withGitHubToken } from "@/lib/github-token";
+import { registerScan, unregisterScan } from "@/lib/scan-control";
+import { checkUploadedRuleSets, type RuleSetSource } from "@/lib/rulesets";
+import { runStoredScan } from "@/lib/scan-runner";
+
+/**
+ * Run a repository scan and stream its progress.
+ *
+ * Expects a JSON body `{ owner, repo, options }` and responds with
+ * newline-delimited JSON: one `ScanEvent` per line, ending with a `result`
+ * or an `error` event. Requests are made with the credentials of
+ * `getUserCredentials`: the GitHub App's installation token when the app
+ * is installed on the repository, else the signed-in user's token. See
+ * `streamRepositoryScan` for the client.
+ *
+ * Uploaded rule sets (`options.rulesets`) run their regexes on the server,
+ * so they are only accepted from signed-in users and within the limits of
+ * `checkUploadedRuleSets`. Configs are always read from the repository;
+ * `options.config` is ignored.
+ *
+ * The scan is registered so `controlScan` can pause, resume or cancel it
+ * while it runs. It is also cancelled when the client goes away, so an
+ * abandoned scan does not keep spending the API quota.
+ *
+ * Every scan that gets to start is saved to the scan store once it ends,
+ * whether it completed, was cancelled or failed, see `runStoredScan`.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const {
+    owner,
+    repo,
+    options = {},
+  } = (body ?? {}) as {
+    owner?: unknown;
+    repo?: unknown;
+    options?: ScanOptions;
+  };
+  if (typeof owner !== "string" || typeof repo !== "string") {
+    return Response.json(
+      { error: "A repository owner and name are required" },
+      { status: 400 }
+    );
+  }
+  if (!isRepositoryName(owner, repo)) {
+    return Response.json(
+      { error: "Invalid repository owner or name" },
+      { status: 400 }
+    );
+  }
+
+  const session = await auth();
+  if (options.rulesets?.length && !session?.user?.id) {
+    return Response.json(
+      { error: "Sign in to scan with uploaded rule sets" },
+      { status: 401 }
+    );
+  }
+  let rulesets: RuleSetSource[];
+  try {
+    rulesets = checkUploadedRuleSets(options.rulesets);
+  } catch (error) {
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Invalid rule sets" },
+      { status: 400 }
+    );
+  }
+
+  const scan = registerScan();
+  const encoder = new TextEncoder();
+  // Set once the client is gone; the scan is cancelled with it.
+  let disconnected = false;
+  const disconnect = () => {
+    disconnected = true;
+    scan.controller.abort();
+  };
+  request.signal.addEventListener("abort", disconnect);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScanEvent) => {
+        if (disconnected) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        send({ type: "started", scanId: scan.id });
+        const credentials = await getUserCredentials(
+          owner,
+          repo,
+          session?.accessToken
+        );
+        const stored = await withGitHubToken(credentials.token, () =>
+          runStoredScan(
+            {
+              id: scan.id,
+              userId: session?.user?.id || null,
+              owner,
+              repo,
+              options: {
+                ...options,
+                config: undefined,
+                rulesets,
+                signal: scan.controller.signal,
+                pause: scan.pause,
+              },
+              actor: credentials.actor,
+            },
+            send
+          )
+        );
+        send(
+          stored.result
+            ? { type: "result", result: stored.result }
+            : {
+                type: "error",
+                message: stored.error ?? "Failed to scan repository",
+              }
+        );
+      } finally {
+        unregisterScan(scan.id);
+        if (!disconnected) controller.close();
+      }
+    },
+    cancel: disconnect,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
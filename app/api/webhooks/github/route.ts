@@ -0,0 +1,124 @@
+import { after } from "next/server";
+import { getServerCredentials, withGitHubToken } from "@/lib/github-token";
+import { publishCheckRun, toCheckRun } from "@/lib/check-run";
+import { reviewPullRequest } from "@/lib/pull-request-review";
+import { runStoredScan } from "@/lib/scan-runner";
+import {
+  getPullRequestScan,
+  getPushScan,
+  verifyWebhookSignature,
+  type PullRequestEvent,
+  type PushEvent,
+  type WebhookScan,
+} from "@/lib/webhooks";
+
+/**
+ * Receive GitHub webhook deliveries and scan pushed commits and pull
+ * requests.
+ *
+ * Every delivery must be signed with `GITHUB_WEBHOOK_SECRET` (see
+ * `verifyWebhookSignature`). For `push` events the lines added by the
+ * pushed commits are scanned (see `getPushScan`), for `pull_request`
+ * events those added by the pull request (see `getPullRequestScan`). Scans
+ * run after the response is sent, since GitHub gives up on deliveries that
+ * take longer than 10 seconds, with the credentials of
+ * `getServerCredentials`, and are saved to the scan history of the sender.
+ * The findings are then published as a check run on the scanned commit
+ * (see `publishCheckRun`) and, for pull requests, posted as a review (see
+ * `reviewPullRequest`). Other events are acknowledged and ignored.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return Response.json(
+      { error: "Webhooks are not configured" },
+      { status: 503 }
+    );
+  }
+
+  const body = await request.text();
+  const signature = request.headers.get("x-hub-signature-256");
+  if (!verifyWebhookSignature(body, signature, secret)) {
+    return Response.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const event = request.headers.get("x-github-event");
+  if (event === "ping") return Response.json({ ok: true });
+  if (event !== "push" && event !== "pull_request") {
+    return Response.json({ ignored: event }, { status: 202 });
+  }
+
+  let scan: WebhookScan | null;
+  try {
+    scan =
+      event === "push"
+        ? getPushScan(JSON.parse(body) as PushEvent)
+        : getPullRequestScan(JSON.parse(body) as PullRequestEvent);
+  } catch {
+    return Response.json(
+      { error: `Invalid ${event} payload` },
+      { status: 400 }
+    );
+  }
+  if (!scan) {
+    return Response.json({ ignored: "nothing to scan" }, { status: 202 });
+  }
+
+  const id = crypto.randomUUID();
+  after(() => runWebhookScan(id, scan));
+  return Response.json({ scanId: id }, { status: 202 });
+}
+
+/**
+ * Run and store the scan of a delivery, then publish its findings: as a
+ * check run when the GitHub App is installed (only apps can create check
+ * runs) and, for pull requests, as a review.
+ */
+async function runWebhookScan(id: string, scan: WebhookScan): Promise<void> {
+  const { owner, repo } = scan;
+  const { pullRequest } = scan.options;
+  const credentials = await getServerCredentials(owner, repo);
+  const stored = await withGitHubToken(credentials.token, () =>
+    runStoredScan({ id, ...scan, actor: credentials.actor })
+  );
+  const { result } = stored;
+  const { token, installationId } = credentials;
+  // Anonymous requests can neither publish checks nor comment.
+  if (!result || !token) return;
+
+  const publish = async (what: string, task: () => Promise<unknown>) => {
+    try {
+      await task();
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(
+          `Error publishing the ${what} of ${owner}/${repo}:`,
+          error
+        );
+      }
+    }
+  };
+  if (installationId) {
+    await publish("check run", () =>
+      publishCheckRun(
+        owner,
+        repo,
+        result.commitSha,
+        toCheckRun(result.secrets, result.config?.failOn),
+        token
+      )
+    );
+  }
+  if (pullRequest) {
+    await publish("review", () =>
+      reviewPullRequest(
+        owner,
+        repo,
+        pullRequest,
+        result.commitSha,
+        result.secrets,
+        token
+      )
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { auth } from "@/auth";
+import { getScan, listScans } from "@/lib/scan-store";
+import ScanDetailTemplate from "@/components/organism/scan_detail_template";
+
+export const metadata: Metadata = {
+  title: "Scan | Repo Secret Scanner",
+};
+
+export default async function ScanDetail({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const session = await auth();
+  const userId = session?.user?.id || null;
+  const scan = await getScan(id, userId);
+  if (!scan) notFound();
+
+  // Other scans of the repository with findings to compare against.
+  const comparable = (await listScans(userId)).filter(
+    (other) =>
+      other.id !== scan.id &&
+      other.owner === scan.owner &&
+      other.repo === scan.repo &&
+      other.status !== "failed"
+  );
+  return <ScanDetailTemplate scan={scan} comparable={comparable} />;
+}
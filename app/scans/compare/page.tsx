@@ -0,0 +1,29 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { auth } from "@/auth";
+import { getScan } from "@/lib/scan-store";
+import ScanDiffTemplate from "@/components/organism/scan_diff_template";
+
+export const metadata: Metadata = {
+  title: "Compare Scans | Repo Secret Scanner",
+};
+
+export default async function CompareScans({
+  searchParams,
+}: {
+  searchParams: Promise<{ base?: string; head?: string }>;
+}) {
+  const { base, head } = await searchParams;
+  const session = await auth();
+  const userId = session?.user?.id || null;
+  const [first, second] = await Promise.all([
+    base ? getScan(base, userId) : null,
+    head ? getScan(head, userId) : null,
+  ]);
+  if (!first || !second) notFound();
+
+  // Always diff the earlier scan against the later one.
+  const [older, newer] =
+    first.startedAt <= second.startedAt ? [first, second] : [second, first];
+  return <ScanDiffTemplate base={older} head={newer} />;
+}
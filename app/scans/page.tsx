@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+import { auth } from "@/auth";
+import { listScans } from "@/lib/scan-store";
+import ScanHistoryTemplate from "@/components/organism/scan_history_template";
+
+export const metadata: Metadata = {
+  title: "Scan History | Repo Secret Scanner",
+};
+
+export default async function ScanHistory() {
+  const session = await auth();
+  const userId = session?.user?.id;
+  const scans = userId ? await listScans(userId) : [];
+  return <ScanHistoryTemplate scans={scans} signedIn={Boolean(userId)} />;
+}
@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+import { auth } from "@/auth";
+import { listWatchedRepositories } from "@/lib/watchlist";
+import WatchlistTemplate from "@/components/organism/watchlist_template";
+
+export const metadata: Metadata = {
+  title: "Watchlist | Repo Secret Scanner",
+};
+
+export default async function Watchlist() {
+  const session = await auth();
+  const userId = session?.user?.id;
+  const entries = userId ? await listWatchedRepositories(userId) : [];
+  return <WatchlistTemplate entries={entries} signedIn={Boolean(userId)} />;
+}
@@ -6,7 +6,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
     GitHub({
       authorization: {
         params: {
-          scope: "read:user repo",
+          scope: "read:user repo security_events",
         },
       },
     }),
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, FileUp, X } from "lucide-react";
+import { BASELINE_FILE, parseBaseline, type Baseline } from "@/lib/baseline";
+
+interface BaselineUploadProps {
+  baseline: Baseline | null;
+  onChange: (baseline: Baseline | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * File picker for a baseline exported from an earlier scan. Without an
+ * upload the scanner falls back to the repository's own baseline file.
+ */
+export function BaselineUpload({
+  baseline,
+  onChange,
+  disabled,
+}: BaselineUploadProps) {
+  const [error, setError] = useState("");
+
+  const handleFile = async (file: File | undefined) => {
+    setError("");
+    if (!file) return;
+    try {
+      onChange(parseBaseline(await file.text(), file.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read baseline");
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+        <span>Baseline</span>
+        {baseline ? (
+          <Badge variant="outline" className="font-mono text-slate-300 gap-1">
+            {baseline.source} ({baseline.findings.length} known)
+            <button
+              type="button"
+              aria-label={`Remove ${baseline.source}`}
+              disabled={disabled}
+              onClick={() => onChange(null)}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ) : (
+          <>
+            <Button
+              asChild
+              size="sm"
+              variant="outline"
+              className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+            >
+              <label
+                className={disabled ? "pointer-events-none opacity-50" : ""}
+              >
+                <FileUp className="w-4 h-4" />
+                Upload baseline
+                <input
+                  type="file"
+                  accept=".json"
+                  hidden
+                  disabled={disabled}
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+            <span className="text-xs">
+              or commit <span className="font-mono">{BASELINE_FILE}</span> to
+              the repository
+            </span>
+          </>
+        )}
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
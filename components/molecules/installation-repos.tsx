@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Lock } from "lucide-react";
+import {
+  getInstallationRepositories,
+  type InstallationRepository,
+} from "@/app/actions/get_installation_repos";
+import { RefSelector } from "@/components/molecules/ref-selector";
+
+interface InstallationReposProps {
+  onSelectRepo: (owner: string, repo: string, ref: string) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Repositories the GitHub App is installed on, for signed-in users. Renders
+ * nothing when there are none, e.g. when no app is configured.
+ */
+export function InstallationRepos({
+  onSelectRepo,
+  isLoading,
+}: InstallationReposProps) {
+  const { data: session } = useSession();
+  const [repositories, setRepositories] = useState<InstallationRepository[]>(
+    []
+  );
+  const [selectedRepoId, setSelectedRepoId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    getInstallationRepositories()
+      .then(setRepositories)
+      .catch(() => setRepositories([]));
+  }, [session]);
+
+  if (repositories.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-300">
+        Repositories the GitHub App is installed on
+      </p>
+      <div className="grid gap-2 max-h-64 overflow-y-auto">
+        {repositories.map((repo) => (
+          <Card
+            key={repo.id}
+            className="p-3 hover:bg-accent/50 cursor-pointer transition-colors"
+            onClick={() => setSelectedRepoId(repo.id)}
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="font-semibold text-sm truncate">
+                {repo.owner}/{repo.name}
+              </span>
+              {repo.private && (
+                <Badge variant="outline" className="gap-1 shrink-0">
+                  <Lock className="w-3 h-3" />
+                  Private
+                </Badge>
+              )}
+            </div>
+            {selectedRepoId === repo.id && (
+              <RefSelector
+                owner={repo.owner}
+                repo={repo.name}
+                onScan={(ref) => onSelectRepo(repo.owner, repo.name, ref)}
+                isLoading={isLoading}
+              />
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
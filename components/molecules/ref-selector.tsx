@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, AlertCircle, GitBranch } from "lucide-react";
+import {
+  getRepositoryRefs,
+  type RepositoryRefs,
+} from "@/app/actions/get_repository_refs";
+
+interface RefSelectorProps {
+  owner: string;
+  repo: string;
+  onScan: (ref: string) => void;
+  isLoading?: boolean;
+}
+
+const COMMIT_OPTION = "__commit__";
+
+export function RefSelector({
+  owner,
+  repo,
+  onScan,
+  isLoading: parentLoading,
+}: RefSelectorProps) {
+  const [refs, setRefs] = useState<RepositoryRefs | null>(null);
+  const [selected, setSelected] = useState("");
+  const [commitSha, setCommitSha] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRepositoryRefs(owner, repo)
+      .then((result) => {
+        if (cancelled) return;
+        setRefs(result);
+        setSelected(result.defaultBranch);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load branches and tags"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo]);
+
+  const ref = selected === COMMIT_OPTION ? commitSha.trim() : selected;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading branches and tags...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <AlertDescription className="text-sm">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <GitBranch className="hidden sm:block w-4 h-4 shrink-0 text-muted-foreground" />
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          disabled={parentLoading}
+          className="h-9 w-full sm:w-auto sm:flex-1 rounded-md border border-input bg-transparent px-3 text-sm"
+        >
+          {refs && (
+            <>
+              <optgroup label="Branches">
+                {refs.branches.map((branch) => (
+                  <option key={`branch-${branch}`} value={branch}>
+                    {branch}
+                    {branch === refs.defaultBranch ? " (default)" : ""}
+                  </option>
+                ))}
+              </optgroup>
+              {refs.tags.length > 0 && (
+                <optgroup label="Tags">
+                  {refs.tags.map((tag) => (
+                    <option key={`tag-${tag}`} value={tag}>
+                      {tag}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </>
+          )}
+          <option value={COMMIT_OPTION}>Commit SHA...</option>
+        </select>
+
+        {selected === COMMIT_OPTION && (
+          <Input
+            placeholder="Commit SHA"
+            value={commitSha}
+            onChange={(e) => setCommitSha(e.target.value)}
+            disabled={parentLoading}
+            className="sm:flex-1 font-mono"
+          />
+        )}
+
+        <Button
+          onClick={() => onScan(ref || "HEAD")}
+          disabled={parentLoading || (selected === COMMIT_OPTION && !ref)}
+          size="sm"
+          className="w-full sm:w-auto"
+        >
+          Scan
+        </Button>
+      </div>
+    </div>
+  );
+}
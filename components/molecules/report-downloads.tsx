@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileDown, Loader2 } from "lucide-react";
+import type { ScanResult } from "@/lib/github-api";
+import { buildReport, toCsv, toHtml, toJson } from "@/lib/report";
+import { downloadFile } from "@/lib/download";
+import { generatePdfReport } from "@/app/actions/generate_pdf_report";
+
+interface ReportDownloadsProps {
+  result: ScanResult;
+  /** Id of the stored scan, needed for the PDF report. */
+  scanId?: string;
+}
+
+const FORMATS = [
+  { label: "CSV", extension: "csv", type: "text/csv", render: toCsv },
+  {
+    label: "JSON",
+    extension: "json",
+    type: "application/json",
+    render: toJson,
+  },
+  { label: "HTML", extension: "html", type: "text/html", render: toHtml },
+] as const;
+
+/** Download buttons for the masked scan report in each supported format. */
+export function ReportDownloads({ result, scanId }: ReportDownloadsProps) {
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [error, setError] = useState("");
+  const fileName = (extension: string) =>
+    `${result.repo}-${result.commitSha.slice(0, 7)}-report.${extension}`;
+
+  const handleDownload = (format: (typeof FORMATS)[number]) => {
+    const report = buildReport(result);
+    downloadFile(
+      fileName(format.extension),
+      format.render(report),
+      format.type
+    );
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!scanId) return;
+    setError("");
+    setIsGeneratingPdf(true);
+    try {
+      const res = await generatePdfReport(scanId);
+      if (!res.success || !res.pdf) {
+        setError(res.error ?? "Failed to create PDF");
+        return;
+      }
+      downloadFile(
+        fileName("pdf"),
+        Uint8Array.from(atob(res.pdf), (char) => char.charCodeAt(0)),
+        "application/pdf"
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create PDF");
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-slate-400">Report</span>
+      {FORMATS.map((format) => (
+        <Button
+          key={format.extension}
+          size="sm"
+          variant="outline"
+          onClick={() => handleDownload(format)}
+          className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+        >
+          <FileDown className="w-4 h-4" />
+          {format.label}
+        </Button>
+      ))}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleDownloadPdf}
+        disabled={isGeneratingPdf || !scanId}
+        // Only scans saved to the user's history can be rendered as PDF.
+        title={!scanId ? "Sign in to create PDF reports" : undefined}
+        className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+      >
+        {isGeneratingPdf ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <FileDown className="w-4 h-4" />
+        )}
+        PDF
+      </Button>
+      {error && <span className="text-sm text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, FileUp, X } from "lucide-react";
+import { checkUploadedRuleSets, type RuleSetSource } from "@/lib/rulesets";
+
+interface RulesetUploadProps {
+  rulesets: RuleSetSource[];
+  onChange: (rulesets: RuleSetSource[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * File picker for Gitleaks configs (`.toml`) and detect-secrets baselines
+ * (JSON). Files are converted once on upload so mistakes, and rule sets
+ * over the server's limits, show up before a scan is started.
+ */
+export function RulesetUpload({
+  rulesets,
+  onChange,
+  disabled,
+}: RulesetUploadProps) {
+  const [error, setError] = useState("");
+
+  const handleFiles = async (files: FileList | null) => {
+    setError("");
+    const added: RuleSetSource[] = [];
+    try {
+      for (const file of Array.from(files ?? [])) {
+        const ruleset: RuleSetSource = {
+          format: file.name.toLowerCase().endsWith(".toml")
+            ? "gitleaks"
+            : "detect-secrets",
+          source: file.name,
+          content: await file.text(),
+        };
+        checkUploadedRuleSets([...rulesets, ...added, ruleset]);
+        added.push(ruleset);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read rule set");
+    }
+    if (added.length > 0) onChange([...rulesets, ...added]);
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+        <span>Extra rules</span>
+        <Button
+          asChild
+          size="sm"
+          variant="outline"
+          className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+        >
+          <label className={disabled ? "pointer-events-none opacity-50" : ""}>
+            <FileUp className="w-4 h-4" />
+            Import Gitleaks / detect-secrets
+            <input
+              type="file"
+              accept=".toml,.json,.baseline"
+              multiple
+              hidden
+              disabled={disabled}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+        {rulesets.map((ruleset) => (
+          <Badge
+            key={ruleset.source}
+            variant="outline"
+            className="font-mono text-slate-300 gap-1"
+          >
+            {ruleset.source}
+            <button
+              type="button"
+              aria-label={`Remove ${ruleset.source}`}
+              disabled={disabled}
+              onClick={() =>
+                onChange(rulesets.filter((item) => item !== ruleset))
+              }
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
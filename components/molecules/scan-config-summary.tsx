@@ -0,0 +1,111 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Settings } from "lucide-react";
+import type { ScanConfig } from "@/lib/scan-config";
+
+interface ScanConfigSummaryProps {
+  config: ScanConfig | null;
+}
+
+export function ScanConfigSummary({ config }: ScanConfigSummaryProps) {
+  if (!config) {
+    return (
+      <p className="text-xs text-slate-400 flex items-center gap-2">
+        <Settings className="w-3 h-3 shrink-0" />
+        No .secretscan.yml found, default scanner rules applied.
+      </p>
+    );
+  }
+
+  // Imported rules are appended after the config's own ones.
+  const imported = config.imports.reduce(
+    (total, ruleset) => total + ruleset.rules,
+    0
+  );
+  const entries: [string, string[]][] = [
+    ["Include", config.include],
+    ["Exclude", config.exclude],
+    ["Disabled patterns", config.disabledPatterns],
+    [
+      "Custom rules",
+      config.rules
+        .slice(0, config.rules.length - imported)
+        .map((rule) => rule.id),
+    ],
+    [
+      "Severity overrides",
+      Object.entries(config.severityOverrides).map(
+        ([id, severity]) => `${id}: ${severity}`
+      ),
+    ],
+    [
+      "Imported rule sets",
+      config.imports.map((ruleset) =>
+        ruleset.format === "gitleaks"
+          ? `${ruleset.source} (${ruleset.rules} rules)`
+          : ruleset.source
+      ),
+    ],
+    ["Allowlisted paths", config.allowlist.paths],
+    ["Check runs fail on", config.failOn ? [`${config.failOn} or above`] : []],
+    [
+      "Allowlisted values",
+      config.allowlist.values.length > 0
+        ? [`${config.allowlist.values.length} value(s)`]
+        : [],
+    ],
+  ];
+
+  return (
+    <Card className="p-4 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Settings className="w-4 h-4 shrink-0" />
+        Config applied: <span className="font-mono">{config.source}</span>
+      </div>
+      <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {entries
+          .filter(([, values]) => values.length > 0)
+          .map(([label, values]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="flex flex-wrap gap-1">
+                {values.map((value) => (
+                  <Badge key={value} variant="outline" className="font-mono">
+                    {value}
+                  </Badge>
+                ))}
+              </dd>
+            </div>
+          ))}
+      </dl>
+      {config.warnings && config.warnings.length > 0 && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Config warnings</summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {config.warnings.map((warning) => (
+              <li key={warning}>
+                {config.source}: {warning}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {config.imports.some((ruleset) => ruleset.warnings.length > 0) && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Import warnings</summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {config.imports.flatMap((ruleset) =>
+              ruleset.warnings.map((warning) => (
+                <li key={`${ruleset.source}:${warning}`}>
+                  {ruleset.source}: {warning}
+                </li>
+              ))
+            )}
+          </ul>
+        </details>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { SecretMatch } from "@/lib/github-api";
+import type { ScanProgress } from "@/lib/scan-progress";
+
+interface ScanProgressPanelProps {
+  progress: ScanProgress | null;
+  /** Findings reported so far, oldest first. */
+  findings: SecretMatch[];
+}
+
+/** Number of findings kept in the live feed. */
+const FEED_SIZE = 50;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Live view of a running scan: a progress bar, the scan counters and the
+ * latest findings.
+ */
+export function ScanProgressPanel({
+  progress,
+  findings,
+}: ScanProgressPanelProps) {
+  // History scans advance commit by commit, snapshot scans file by file.
+  const total = progress?.commits
+    ? progress.commits.total
+    : (progress?.filesDiscovered ?? 0) - (progress?.filesSkipped ?? 0);
+  const done = progress?.commits
+    ? progress.commits.scanned
+    : (progress?.filesScanned ?? 0) + (progress?.filesFailed ?? 0);
+  const percent =
+    total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0;
+
+  const counters: [string, string | number][] = progress
+    ? [
+        ...(progress.commits
+          ? ([
+              [
+                "Commits",
+                `${progress.commits.scanned} / ${progress.commits.total}`,
+              ],
+            ] as [string, string][])
+          : []),
+        ["Discovered", progress.filesDiscovered],
+        ["Scanned", progress.filesScanned],
+        ["Skipped", progress.filesSkipped],
+        ["Failed", progress.filesFailed],
+        ["Findings", progress.findings],
+        ["Read", formatBytes(progress.bytesRead)],
+        ["API calls", progress.apiCalls],
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm text-slate-400">
+          <span>{total > 0 ? `${done} of ${total}` : "Preparing..."}</span>
+          <span>{percent}%</span>
+        </div>
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          className="h-2 rounded-full bg-slate-700 overflow-hidden"
+        >
+          <div
+            className="h-full bg-red-500 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="bg-slate-700 rounded p-4">
+        <p className="text-sm text-slate-300 font-mono break-all">
+          {progress?.message || "Initializing scan..."}
+        </p>
+      </div>
+
+      {counters.length > 0 && (
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {counters.map(([label, value]) => (
+            <div key={label} className="bg-slate-900/50 rounded p-3">
+              <dt className="text-xs text-slate-400">{label}</dt>
+              <dd className="text-lg font-semibold text-white">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {progress && progress.filesSkipped > 0 && (
+        <p className="text-xs text-slate-400">
+          Skipped:{" "}
+          {Object.entries(progress.skipReasons)
+            .map(([reason, count]) => `${count} ${reason}`)
+            .join(", ")}
+        </p>
+      )}
+
+      {findings.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-white">Latest findings</h3>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {findings
+              .slice(-FEED_SIZE)
+              .reverse()
+              .map((finding, index) => (
+                <li
+                  key={`${finding.commitSha}:${finding.file}:${finding.line}:${finding.type}:${index}`}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Badge variant="destructive">{finding.severity}</Badge>
+                  <span className="text-slate-200">{finding.name}</span>
+                  <span className="text-slate-400 font-mono break-all">
+                    {finding.file}:{finding.line}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,24 +5,57 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, AlertTriangle, Copy, Check, Github } from "lucide-react";
+import {
+  Loader2,
+  AlertTriangle,
+  Copy,
+  Check,
+  Github,
+  Download,
+  Upload,
+  MessageSquare,
+  ListChecks,
+} from "lucide-react";
 import { useSession } from "next-auth/react";
-import { createGitHubIssueServerAction } from "@/app/actions/create_issue";
-
-interface SecretMatch {
-  file: string;
-  line: number;
-  content: string;
-  type: string;
-  name: string;
-  description: string;
-  severity: "low" | "medium" | "high" | "critical";
-}
+import {
+  createGitHubIssueServerAction,
+  type AlertIssueAction,
+} from "@/app/actions/create_issue";
+import { uploadSarifServerAction } from "@/app/actions/upload_sarif";
+import { reviewPullRequestServerAction } from "@/app/actions/review_pull_request";
+import { publishCheckRunServerAction } from "@/app/actions/publish_check_run";
+import type { CheckRunConclusion } from "@/lib/check-run";
+import type { PullRequestReviewOutcome } from "@/lib/pull-request-review";
+import type { ScanResult, SecretMatch } from "@/lib/github-api";
+import { tracksAlertIssue } from "@/lib/alert-issue";
+import { toSarif } from "@/lib/sarif";
+import { downloadFile } from "@/lib/download";
+import {
+  BASELINE_FILE,
+  createBaseline,
+  type BaselineComparison,
+} from "@/lib/baseline";
 
 interface ScanResultsProps {
   owner: string;
   repo: string;
+  /** Branch, tag or SHA that was scanned. */
+  gitRef?: string;
+  /** Exact commit SHA that was scanned. */
+  commitSha?: string;
+  /** How the scan ran; only complete snapshot scans keep the alert issue. */
+  mode?: ScanResult["mode"];
   secrets: SecretMatch[];
+  /** Findings silenced by `secretscan:allow` markers or the allowlist. */
+  suppressed?: SecretMatch[];
+  /** Baseline comparison; only new findings are listed when set. */
+  baseline?: BaselineComparison | null;
+  /** Why the scan stopped early; partial results cannot be uploaded. */
+  incomplete?: string;
+  /** Pull request that was scanned; its findings can be commented on. */
+  pullRequest?: number;
+  /** Stored scan the results come from; check runs are published from it. */
+  scanId?: string;
   isLoading?: boolean;
   onOpenAuthModal: () => void;
 }
@@ -30,28 +63,46 @@ interface ScanResultsProps {
 export function ScanResults({
   owner,
   repo,
+  gitRef,
+  commitSha,
+  mode,
   secrets,
+  suppressed = [],
+  baseline,
+  incomplete,
+  pullRequest,
+  scanId,
   isLoading,
   onOpenAuthModal,
 }: ScanResultsProps) {
   const { data: session } = useSession();
   const [isCreatingIssue, setIsCreatingIssue] = useState(false);
-  const [issueCreated, setIssueCreated] = useState(false);
-  const [issueUrl, setIssueUrl] = useState("");
+  const [issue, setIssue] = useState<{
+    url?: string;
+    action: AlertIssueAction;
+  } | null>(null);
   const [error, setError] = useState("");
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [isUploadingSarif, setIsUploadingSarif] = useState(false);
+  const [sarifUrl, setSarifUrl] = useState("");
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [review, setReview] = useState<PullRequestReviewOutcome | null>(null);
+  const [isPublishingCheck, setIsPublishingCheck] = useState(false);
+  const [checkRun, setCheckRun] = useState<{
+    url: string;
+    conclusion: CheckRunConclusion;
+  } | null>(null);
+
+  const reported = baseline
+    ? secrets.filter((secret) => secret.baseline === "new")
+    : secrets;
+  const existing = baseline
+    ? secrets.filter((secret) => secret.baseline === "existing")
+    : [];
 
-  const secretsByType = secrets.reduce((acc, secret) => {
+  const secretsByType = reported.reduce((acc, secret) => {
     if (!acc[secret.type]) acc[secret.type] = [];
-    acc[secret.type].push({
-      file: secret.file,
-      line: secret.line,
-      content: secret.content,
-      type: secret.type,
-      name: secret.name,
-      description: secret.description,
-      severity: secret.severity,
-    });
+    acc[secret.type].push(secret);
     return acc;
   }, {} as Record<string, SecretMatch[]>);
 
@@ -64,10 +115,23 @@ export function ScanResults({
     setError("");
     setIsCreatingIssue(true);
     try {
-      const result = await createGitHubIssueServerAction(owner, repo, secrets);
-      if (result.success && result.issueUrl) {
-        setIssueCreated(true);
-        setIssueUrl(result.issueUrl);
+      const result = await createGitHubIssueServerAction(
+        owner,
+        repo,
+        secrets,
+        gitRef && commitSha
+          ? { ref: gitRef, commitSha, mode, incomplete }
+          : undefined,
+        baseline
+          ? {
+              source: baseline.source,
+              existing: existing.length,
+              resolved: baseline.resolved.length,
+            }
+          : undefined
+      );
+      if (result.success && result.action) {
+        setIssue({ url: result.issueUrl, action: result.action });
       } else {
         setError(result.error || "Failed to create issue");
       }
@@ -78,6 +142,117 @@ export function ScanResults({
     }
   };
 
+  const handleExportBaseline = () => {
+    const file = createBaseline(secrets, {
+      source: `${owner}/${repo}`,
+      commitSha,
+    });
+    downloadFile(
+      BASELINE_FILE,
+      JSON.stringify(file, null, 2),
+      "application/json"
+    );
+  };
+
+  const sarif = () =>
+    toSarif({
+      owner,
+      repo,
+      ref: gitRef,
+      commitSha,
+      secrets,
+      suppressed,
+      incomplete,
+    });
+
+  const handleUploadSarif = async () => {
+    if (!session) {
+      onOpenAuthModal();
+      return;
+    }
+    if (!gitRef || !commitSha) return;
+
+    setError("");
+    setIsUploadingSarif(true);
+    try {
+      const result = await uploadSarifServerAction(owner, repo, sarif(), {
+        ref: gitRef,
+        commitSha,
+        mode,
+      });
+      if (result.success && result.analysisUrl) {
+        setSarifUrl(result.analysisUrl);
+      } else {
+        setError(result.error || "Failed to upload SARIF");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload SARIF");
+    } finally {
+      setIsUploadingSarif(false);
+    }
+  };
+
+  const handleReviewPullRequest = async () => {
+    if (!session) {
+      onOpenAuthModal();
+      return;
+    }
+    if (!pullRequest || !commitSha) return;
+
+    setError("");
+    setIsReviewing(true);
+    try {
+      const result = await reviewPullRequestServerAction(
+        owner,
+        repo,
+        pullRequest,
+        commitSha,
+        secrets
+      );
+      if (result.success && result.outcome) {
+        setReview(result.outcome);
+      } else {
+        setError(result.error || "Failed to review pull request");
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to review pull request"
+      );
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const handlePublishCheckRun = async () => {
+    if (!session) {
+      onOpenAuthModal();
+      return;
+    }
+    if (!commitSha || !scanId) return;
+
+    setError("");
+    setIsPublishingCheck(true);
+    try {
+      const result = await publishCheckRunServerAction(
+        owner,
+        repo,
+        scanId,
+        commitSha
+      );
+      if (result.success && result.checkRunUrl && result.conclusion) {
+        setCheckRun({ url: result.checkRunUrl, conclusion: result.conclusion });
+      } else {
+        setError(result.error || "Failed to publish check run");
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to publish check run"
+      );
+    } finally {
+      setIsPublishingCheck(false);
+    }
+  };
+
   const copyToClipboard = (text: string, index: number) => {
     navigator.clipboard.writeText(text);
     setCopiedIndex(index);
@@ -92,15 +267,255 @@ export function ScanResults({
     );
   }
 
-  if (secrets.length === 0) {
+  const auditSections = (
+    <>
+      <CollapsedFindings
+        title="known from the baseline"
+        findings={existing}
+        detail={() => `Accepted in ${baseline?.source}`}
+      />
+      <ResolvedFindings baseline={baseline} />
+      <CollapsedFindings
+        title="suppressed"
+        findings={suppressed}
+        detail={(match) => match.suppressed}
+      />
+    </>
+  );
+
+  const exportActions = (
+    <>
+      {sarifUrl && (
+        <Alert className="bg-green-50 border-green-200 text-green-900">
+          <Check className="h-4 w-4" />
+          <AlertDescription>
+            SARIF uploaded to code scanning!{" "}
+            <a
+              href={sarifUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline font-semibold hover:opacity-80"
+            >
+              View alerts
+            </a>
+          </AlertDescription>
+        </Alert>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <Button onClick={handleExportBaseline} variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          Export Baseline
+        </Button>
+        <Button
+          onClick={() =>
+            downloadFile(
+              `${repo}-${commitSha?.slice(0, 7) ?? "scan"}.sarif`,
+              JSON.stringify(sarif(), null, 2),
+              "application/sarif+json"
+            )
+          }
+          variant="outline"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download SARIF
+        </Button>
+        <Button
+          onClick={handleUploadSarif}
+          disabled={
+            isUploadingSarif ||
+            !!sarifUrl ||
+            !gitRef ||
+            !commitSha ||
+            !!incomplete ||
+            mode === "history"
+          }
+          // Code scanning would close the alerts of the files not scanned,
+          // and place history findings at their old lines on the scanned
+          // commit.
+          title={
+            mode === "history"
+              ? "History scans cannot be uploaded"
+              : incomplete && "Partial scans cannot be uploaded"
+          }
+          variant="outline"
+        >
+          {isUploadingSarif ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4 mr-2" />
+          )}
+          Upload to Code Scanning
+        </Button>
+      </div>
+      {checkRun && (
+        <Alert className="bg-green-50 border-green-200 text-green-900">
+          <Check className="h-4 w-4" />
+          <AlertDescription>
+            Check run published with conclusion{" "}
+            <span className="font-semibold">{checkRun.conclusion}</span>.{" "}
+            <a
+              href={checkRun.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline font-semibold hover:opacity-80"
+            >
+              View check run
+            </a>
+          </AlertDescription>
+        </Alert>
+      )}
+      <Button
+        onClick={handlePublishCheckRun}
+        disabled={
+          isPublishingCheck ||
+          !!checkRun ||
+          !commitSha ||
+          !scanId ||
+          !!incomplete
+        }
+        // A passing check on a partial scan would let unscanned files through.
+        title={incomplete && "Partial scans cannot be published as checks"}
+        variant="outline"
+      >
+        {isPublishingCheck ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <ListChecks className="w-4 h-4 mr-2" />
+        )}
+        Publish Check Run
+      </Button>
+      {review && (
+        <Alert className="bg-green-50 border-green-200 text-green-900">
+          <Check className="h-4 w-4" />
+          <AlertDescription>
+            Pull request reviewed: {review.created} comment
+            {review.created !== 1 ? "s" : ""} added, {review.updated} updated,{" "}
+            {review.resolved} marked resolved.{" "}
+            {review.reviewUrl && (
+              <a
+                href={review.reviewUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline font-semibold hover:opacity-80"
+              >
+                View review
+              </a>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      {pullRequest && (
+        <Button
+          onClick={handleReviewPullRequest}
+          disabled={isReviewing || !!review || !commitSha || !!incomplete}
+          // Comments of findings in the files not scanned would be resolved.
+          title={incomplete && "Partial scans cannot be reviewed"}
+          variant="outline"
+        >
+          {isReviewing ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <MessageSquare className="w-4 h-4 mr-2" />
+          )}
+          Comment on Pull Request #{pullRequest}
+        </Button>
+      )}
+    </>
+  );
+
+  // Only complete snapshot scans update or close the ref's alert issue;
+  // other scans can still open a new issue for their findings.
+  const tracked = Boolean(
+    gitRef && commitSha && tracksAlertIssue({ mode, incomplete })
+  );
+  const issueActions = (tracked || secrets.length > 0) && (
+    <>
+      {issue && (
+        <Alert className="bg-green-50 border-green-200 text-green-900">
+          <Check className="h-4 w-4" />
+          <AlertDescription>
+            {
+              {
+                created: "Issue created successfully!",
+                updated: "Alert issue updated with the current findings.",
+                unchanged: "Alert issue is already up to date.",
+                closed: "No findings remain, alert issue closed.",
+                none: "No open alert issue to close.",
+              }[issue.action]
+            }{" "}
+            {issue.url && (
+              <a
+                href={issue.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline font-semibold hover:opacity-80"
+              >
+                View issue
+              </a>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      <Button
+        onClick={handleCreateIssue}
+        disabled={isCreatingIssue || !!issue}
+        title={
+          tracked
+            ? undefined
+            : "Only complete scans of a branch or tag update the alert issue"
+        }
+        className="w-full"
+        size="lg"
+        variant={reported.length === 0 ? "outline" : "default"}
+      >
+        {isCreatingIssue ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Updating Issue...
+          </>
+        ) : issue ? (
+          <>
+            <Check className="w-4 h-4 mr-2" />
+            Issue Synced
+          </>
+        ) : (
+          <>
+            <Github className="w-4 h-4 mr-2" />
+            {!tracked
+              ? "Create GitHub Issue"
+              : secrets.length === 0
+              ? "Close GitHub Issue"
+              : "Create or Update GitHub Issue"}
+          </>
+        )}
+      </Button>
+    </>
+  );
+
+  if (reported.length === 0) {
     return (
-      <Card className="p-8 text-center">
-        <div className="text-muted-foreground">
-          <AlertTriangle className="w-8 h-8 mx-auto mb-2 opacity-50" />
-          <p>No potential secrets detected in this repository.</p>
-          <p className="text-sm mt-1">This is a good sign!</p>
-        </div>
-      </Card>
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <Card className="p-8 text-center">
+          <div className="text-muted-foreground">
+            <AlertTriangle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>
+              {baseline
+                ? "No new potential secrets since the baseline."
+                : "No potential secrets detected in this repository."}
+            </p>
+            <p className="text-sm mt-1">This is a good sign!</p>
+          </div>
+        </Card>
+        {auditSections}
+        {exportActions}
+        {issueActions}
+      </div>
     );
   }
 
@@ -109,10 +524,13 @@ export function ScanResults({
       <Alert variant="destructive">
         <AlertTriangle className="h-4 w-4" />
         <AlertDescription>
-          Found {secrets.length} potential secret
-          {secrets.length !== 1 ? "s" : ""} in{" "}
+          Found {reported.length} {baseline ? "new " : ""}potential secret
+          {reported.length !== 1 ? "s" : ""} in{" "}
           {Object.keys(secretsByType).length} category
           {Object.keys(secretsByType).length !== 1 ? "ies" : "y"}
+          {baseline &&
+            `, ${existing.length} known from ${baseline.source}, ${baseline.resolved.length} resolved`}
+          {suppressed.length > 0 && ` (${suppressed.length} suppressed)`}
         </AlertDescription>
       </Alert>
 
@@ -123,23 +541,6 @@ export function ScanResults({
         </Alert>
       )}
 
-      {issueCreated && (
-        <Alert className="bg-green-50 border-green-200 text-green-900">
-          <Check className="h-4 w-4" />
-          <AlertDescription>
-            Issue created successfully!{" "}
-            <a
-              href={issueUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline font-semibold hover:opacity-80"
-            >
-              View issue
-            </a>
-          </AlertDescription>
-        </Alert>
-      )}
-
       <div className="space-y-4">
         {Object.entries(secretsByType).map(([type, matches]) => (
           <Card key={type} className="p-4">
@@ -161,6 +562,9 @@ export function ScanResults({
                   <div className="flex items-center justify-between gap-2">
                     <span className="text-muted-foreground">
                       {match.file}:{match.line}
+                      {match.endLine && match.endLine !== match.line
+                        ? `-${match.endLine}`
+                        : ""}
                     </span>
                     <Button
                       size="sm"
@@ -178,6 +582,46 @@ export function ScanResults({
                   <div className="text-foreground break-all">
                     {match.content}
                   </div>
+                  {match.verification && (
+                    <Badge
+                      variant={
+                        match.verification === "verified-live"
+                          ? "destructive"
+                          : "outline"
+                      }
+                    >
+                      {
+                        {
+                          "verified-live": "Verified live",
+                          invalid: "Invalid / revoked",
+                          unknown: "Verification unknown",
+                        }[match.verification]
+                      }
+                    </Badge>
+                  )}
+                  {match.explanation && (
+                    <div className="text-muted-foreground">
+                      {match.explanation}
+                    </div>
+                  )}
+                  {match.commitSha && (
+                    <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                      <span>
+                        {match.commitSha.slice(0, 7)} by {match.commitAuthor}
+                        {match.commitDate &&
+                          ` on ${new Date(
+                            match.commitDate
+                          ).toLocaleDateString()}`}
+                      </span>
+                      {match.presentAtHead !== undefined && (
+                        <Badge variant="outline">
+                          {match.presentAtHead
+                            ? "Still present at HEAD"
+                            : "Removed from HEAD"}
+                        </Badge>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -185,29 +629,79 @@ export function ScanResults({
         ))}
       </div>
 
-      <Button
-        onClick={handleCreateIssue}
-        disabled={isCreatingIssue || issueCreated}
-        className="w-full"
-        size="lg"
-      >
-        {isCreatingIssue ? (
-          <>
-            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            Creating Issue...
-          </>
-        ) : issueCreated ? (
-          <>
-            <Check className="w-4 h-4 mr-2" />
-            Issue Created
-          </>
-        ) : (
-          <>
-            <Github className="w-4 h-4 mr-2" />
-            Create GitHub Issue
-          </>
-        )}
-      </Button>
+      {auditSections}
+
+      {exportActions}
+
+      {issueActions}
     </div>
   );
 }
+
+function CollapsedFindings({
+  title,
+  findings,
+  detail,
+}: {
+  title: string;
+  findings: SecretMatch[];
+  detail: (match: SecretMatch) => string | undefined;
+}) {
+  if (findings.length === 0) return null;
+
+  return (
+    <Card className="p-4">
+      <details>
+        <summary className="cursor-pointer text-sm font-semibold">
+          {findings.length} finding{findings.length !== 1 ? "s" : ""} {title}
+        </summary>
+        <div className="mt-3 space-y-2">
+          {findings.map((match, idx) => (
+            <div
+              key={`${match.file}-${match.line}-${idx}`}
+              className="bg-muted p-3 rounded font-mono text-xs space-y-1"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">{match.type}</Badge>
+                <span className="text-muted-foreground">
+                  {match.file}:{match.line}
+                </span>
+              </div>
+              <div className="text-foreground break-all">{match.content}</div>
+              <div className="text-muted-foreground">{detail(match)}</div>
+            </div>
+          ))}
+        </div>
+      </details>
+    </Card>
+  );
+}
+
+function ResolvedFindings({
+  baseline,
+}: {
+  baseline?: BaselineComparison | null;
+}) {
+  if (!baseline || baseline.resolved.length === 0) return null;
+
+  return (
+    <Card className="p-4">
+      <details>
+        <summary className="cursor-pointer text-sm font-semibold">
+          {baseline.resolved.length} baseline finding
+          {baseline.resolved.length !== 1 ? "s" : ""} resolved
+        </summary>
+        <ul className="mt-3 space-y-1 font-mono text-xs">
+          {baseline.resolved.map((entry) => (
+            <li key={entry.fingerprint} className="flex items-center gap-2">
+              <Badge variant="outline">{entry.type}</Badge>
+              <span className="text-muted-foreground">
+                {entry.file}:{entry.line}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </Card>
+  );
+}
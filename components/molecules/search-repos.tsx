@@ -10,6 +10,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Search, AlertCircle, Star } from "lucide-react";
 import { searchRepositories } from "@/lib/github-api";
 import { CustomPagination } from "@/components/molecules/custom-pagination";
+import { RefSelector } from "@/components/molecules/ref-selector";
 
 interface Repository {
   id: number;
@@ -25,7 +26,7 @@ interface Repository {
 }
 
 interface SearchReposProps {
-  onSelectRepo: (owner: string, repo: string) => void;
+  onSelectRepo: (owner: string, repo: string, ref: string) => void;
   isLoading?: boolean;
 }
 
@@ -44,6 +45,7 @@ export function SearchRepos({
     items: Repository[];
   }>({ total_count: 0, incomplete_results: false, items: [] });
   const [currentPage, setCurrentPage] = useState(1);
+  const [selectedRepoId, setSelectedRepoId] = useState<number | null>(null);
   const perPage = 10;
 
   const fetchRepos = async (page = 1) => {
@@ -129,7 +131,7 @@ export function SearchRepos({
               <Card
                 key={repo.id}
                 className="p-3 sm:p-4 hover:bg-accent/50 cursor-pointer transition-colors w-full overflow-hidden"
-                onClick={() => onSelectRepo(repo.owner.login, repo.name)}
+                onClick={() => setSelectedRepoId(repo.id)}
               >
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
                   <div className="flex items-start gap-2 min-w-0">
@@ -162,6 +164,17 @@ export function SearchRepos({
                     {repo.stargazers_count}
                   </div>
                 </div>
+
+                {selectedRepoId === repo.id && (
+                  <RefSelector
+                    owner={repo.owner.login}
+                    repo={repo.name}
+                    onScan={(ref) =>
+                      onSelectRepo(repo.owner.login, repo.name, ref)
+                    }
+                    isLoading={parentLoading}
+                  />
+                )}
               </Card>
             ))}
           </div>
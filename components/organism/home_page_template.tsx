@@ -1,27 +1,45 @@
 "use client";
 
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useState, useEffect, use } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Shield, AlertCircle, Github } from "lucide-react";
+import {
+  Loader2,
+  Shield,
+  AlertCircle,
+  Github,
+  Pause,
+  Play,
+  Square,
+  History,
+  Eye,
+} from "lucide-react";
 import { AuthModal } from "@/components/molecules/auth-modal";
 import { SearchRepos } from "@/components/molecules/search-repos";
+import { InstallationRepos } from "@/components/molecules/installation-repos";
 import { ScanResults } from "@/components/molecules/scan-results";
-import { scanRepositoryForSecrets, getRateLimitInfo } from "@/lib/github-api";
+import { ScanConfigSummary } from "@/components/molecules/scan-config-summary";
+import { RulesetUpload } from "@/components/molecules/ruleset-upload";
+import { BaselineUpload } from "@/components/molecules/baseline-upload";
+import { ReportDownloads } from "@/components/molecules/report-downloads";
+import { ScanProgressPanel } from "@/components/molecules/scan-progress";
+import {
+  streamRepositoryScan,
+  getRateLimitInfo,
+  MAX_CONCURRENCY,
+  type ScanResult,
+  type SecretMatch,
+} from "@/lib/github-api";
+import type { ScanEvent, ScanProgress } from "@/lib/scan-progress";
+import type { RuleSetSource } from "@/lib/rulesets";
+import type { Baseline } from "@/lib/baseline";
+import { controlScan } from "@/app/actions/control_scan";
 import { signOut } from "next-auth/react";
 
-interface SecretMatch {
-  file: string;
-  line: number;
-  content: string;
-  type: string;
-  name: string;
-  description: string;
-  severity: "low" | "medium" | "high" | "critical";
-}
-
 type AppState = "search" | "scanning" | "results";
 
 export default function Home() {
@@ -30,10 +48,27 @@ export default function Home() {
   const [selectedRepo, setSelectedRepo] = useState<{
     owner: string;
     repo: string;
+    ref: string;
   } | null>(null);
-  const [secrets, setSecrets] = useState<SecretMatch[]>([]);
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null);
   const [isScanning, setIsScanning] = useState(false);
-  const [scanProgress, setScanProgress] = useState("");
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [liveFindings, setLiveFindings] = useState<SecretMatch[]>([]);
+  const [scanId, setScanId] = useState<string | null>(null);
+  // Id of the scan the shown results were stored under.
+  const [resultScanId, setResultScanId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [scanMode, setScanMode] = useState<
+    "api" | "archive" | "history" | "pull-request"
+  >("api");
+  const [historySince, setHistorySince] = useState("");
+  const [historyMaxCommits, setHistoryMaxCommits] = useState("100");
+  const [pullNumber, setPullNumber] = useState("");
+  const [concurrency, setConcurrency] = useState("4");
+  const [verifySecrets, setVerifySecrets] = useState(false);
+  const [rulesets, setRulesets] = useState<RuleSetSource[]>([]);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
   const [error, setError] = useState("");
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
@@ -52,20 +87,52 @@ export default function Home() {
     setRateLimit(rateLimitInfo);
   };
 
-  const handleSelectRepo = async (owner: string, repo: string) => {
-    setSelectedRepo({ owner, repo });
+  const handleSelectRepo = async (owner: string, repo: string, ref: string) => {
+    setSelectedRepo({ owner, repo, ref });
     setAppState("scanning");
     setError("");
-    setScanProgress("Initializing scan...");
+    setScanProgress(null);
+    setLiveFindings([]);
+    setScanId(null);
+    setResultScanId(null);
+    setIsPaused(false);
+    setIsCancelling(false);
     setIsScanning(true);
 
+    let startedId: string | null = null;
+    const handleScanEvent = (event: ScanEvent) => {
+      if (event.type === "started") {
+        startedId = event.scanId;
+        setScanId(event.scanId);
+      }
+      if (event.type === "progress") setScanProgress(event.progress);
+      if (event.type === "finding") {
+        setLiveFindings((findings) => [...findings, event.finding]);
+      }
+    };
+
     try {
-      const results = await scanRepositoryForSecrets(
-        owner,
-        repo,
-        setScanProgress
-      );
-      setSecrets(results);
+      const results = await streamRepositoryScan(owner, repo, handleScanEvent, {
+        mode: scanMode,
+        ref,
+        verify: verifySecrets,
+        concurrency: Number.parseInt(concurrency, 10) || undefined,
+        rulesets,
+        baseline: baseline ?? undefined,
+        ...(scanMode === "history" && {
+          since: historySince
+            ? new Date(historySince).toISOString()
+            : undefined,
+          maxCommits: historyMaxCommits
+            ? Number.parseInt(historyMaxCommits, 10)
+            : undefined,
+        }),
+        ...(scanMode === "pull-request" && {
+          pullRequest: Number.parseInt(pullNumber, 10) || undefined,
+        }),
+      });
+      setScanResult(results);
+      setResultScanId(startedId);
       setAppState("results");
     } catch (err) {
       setError(
@@ -74,15 +141,25 @@ export default function Home() {
       setAppState("search");
     } finally {
       setIsScanning(false);
+      setScanId(null);
     }
   };
 
+  const handleControlScan = async (action: "pause" | "resume" | "cancel") => {
+    if (!scanId) return;
+    if (action === "cancel") setIsCancelling(true);
+    const result = await controlScan(scanId, action);
+    if (!result.success) return;
+    if (action !== "cancel") setIsPaused(action === "pause");
+  };
+
   const handleReset = () => {
     setAppState("search");
     setSelectedRepo(null);
-    setSecrets([]);
+    setScanResult(null);
     setError("");
-    setScanProgress("");
+    setScanProgress(null);
+    setLiveFindings([]);
   };
 
   useEffect(() => {
@@ -136,6 +213,26 @@ export default function Home() {
                   {rateLimit?.remaining} / {rateLimit?.limit}
                 </p>
               </div>
+              <Button
+                asChild
+                variant="outline"
+                className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto mb-2 sm:mb-0"
+              >
+                <Link href="/scans">
+                  <History className="w-4 h-4" />
+                  History
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto mb-2 sm:mb-0"
+              >
+                <Link href="/watchlist">
+                  <Eye className="w-4 h-4" />
+                  Watchlist
+                </Link>
+              </Button>
               {isAuthenticated && (
                 <Button
                   variant="outline"
@@ -211,6 +308,121 @@ export default function Home() {
                   <h2 className="text-xl font-semibold text-white mb-4">
                     Search Repository
                   </h2>
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4">
+                    <span className="text-sm text-slate-400">Scan mode</span>
+                    <div className="flex gap-2">
+                      {(
+                        [
+                          ["api", "File by file"],
+                          ["archive", "Archive (1 API call)"],
+                          ["history", "Commit history"],
+                          ["pull-request", "Pull request"],
+                        ] as const
+                      ).map(([mode, label]) => (
+                        <Button
+                          key={mode}
+                          size="sm"
+                          variant={scanMode === mode ? "default" : "outline"}
+                          onClick={() => setScanMode(mode)}
+                          disabled={isScanning}
+                          className={
+                            scanMode === mode
+                              ? "bg-red-600 hover:bg-red-700 text-white"
+                              : "text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+                          }
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  {scanMode === "history" && (
+                    <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                      <label className="flex-1 text-sm text-slate-400 space-y-1">
+                        <span>Commits since</span>
+                        <Input
+                          type="date"
+                          value={historySince}
+                          onChange={(e) => setHistorySince(e.target.value)}
+                          disabled={isScanning}
+                          className="text-white"
+                        />
+                      </label>
+                      <label className="flex-1 text-sm text-slate-400 space-y-1">
+                        <span>Max commits</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={historyMaxCommits}
+                          onChange={(e) => setHistoryMaxCommits(e.target.value)}
+                          disabled={isScanning}
+                          className="text-white"
+                        />
+                      </label>
+                    </div>
+                  )}
+                  {scanMode === "pull-request" && (
+                    <label className="flex flex-col gap-1 mb-4 text-sm text-slate-400">
+                      <span>
+                        Pull request number. Only the lines it adds are scanned,
+                        at its head commit; the ref picked below is ignored.
+                      </span>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="e.g. 42"
+                        value={pullNumber}
+                        onChange={(e) => setPullNumber(e.target.value)}
+                        disabled={isScanning}
+                        className="w-32 text-white"
+                      />
+                    </label>
+                  )}
+                  {(scanMode === "api" || scanMode === "history") && (
+                    <label className="flex items-center gap-2 mb-4 text-sm text-slate-400">
+                      <span>
+                        Parallel {scanMode === "history" ? "commits" : "files"}
+                      </span>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={MAX_CONCURRENCY}
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(e.target.value)}
+                        disabled={isScanning}
+                        className="w-20 text-white"
+                      />
+                    </label>
+                  )}
+                  <label className="flex items-start gap-2 mb-4 text-sm text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={verifySecrets}
+                      onChange={(e) => setVerifySecrets(e.target.checked)}
+                      disabled={isScanning}
+                      className="mt-1"
+                    />
+                    <span>
+                      Verify findings with their providers. Detected tokens are
+                      sent to the issuing service to check whether they are
+                      still live.
+                    </span>
+                  </label>
+                  <RulesetUpload
+                    rulesets={rulesets}
+                    onChange={setRulesets}
+                    disabled={isScanning}
+                  />
+                  <BaselineUpload
+                    baseline={baseline}
+                    onChange={setBaseline}
+                    disabled={isScanning}
+                  />
+                  <InstallationRepos
+                    onSelectRepo={handleSelectRepo}
+                    isLoading={isScanning}
+                  />
                   <SearchRepos
                     onSelectRepo={handleSelectRepo}
                     isLoading={isScanning}
@@ -227,19 +439,51 @@ export default function Home() {
                         Scanning Repository
                       </h2>
                       <p className="text-sm text-slate-400">
-                        {selectedRepo?.owner}/{selectedRepo?.repo}
+                        {selectedRepo?.owner}/{selectedRepo?.repo} @{" "}
+                        {selectedRepo?.ref}
                       </p>
                     </div>
                   </div>
-                  <div className="bg-slate-700 rounded p-4">
-                    <p className="text-sm text-slate-300 font-mono break-all">
-                      {scanProgress}
-                    </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        handleControlScan(isPaused ? "resume" : "pause")
+                      }
+                      disabled={!scanId || isCancelling}
+                      className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+                    >
+                      {isPaused ? (
+                        <Play className="w-4 h-4" />
+                      ) : (
+                        <Pause className="w-4 h-4" />
+                      )}
+                      {isPaused ? "Resume" : "Pause"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleControlScan("cancel")}
+                      disabled={!scanId || isCancelling}
+                      className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+                    >
+                      {isCancelling ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Square className="w-4 h-4" />
+                      )}
+                      Cancel
+                    </Button>
                   </div>
+                  <ScanProgressPanel
+                    progress={scanProgress}
+                    findings={liveFindings}
+                  />
                 </div>
               )}
 
-              {appState === "results" && selectedRepo && (
+              {appState === "results" && selectedRepo && scanResult && (
                 <div className="space-y-4">
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                     <div className="text-center sm:text-left">
@@ -247,7 +491,11 @@ export default function Home() {
                         Scan Results
                       </h2>
                       <p className="text-sm text-slate-400">
-                        {selectedRepo.owner}/{selectedRepo.repo}
+                        {selectedRepo.owner}/{selectedRepo.repo} @{" "}
+                        {scanResult.ref}{" "}
+                        <span className="font-mono">
+                          ({scanResult.commitSha.slice(0, 7)})
+                        </span>
                       </p>
                     </div>
                     <Button
@@ -266,10 +514,37 @@ export default function Home() {
                     </Alert>
                   )}
 
+                  {scanResult.incomplete && (
+                    <Alert className="bg-amber-900/30 border-amber-700 text-amber-100">
+                      <AlertCircle className="h-4 w-4 shrink-0" />
+                      <AlertDescription className="text-sm">
+                        {scanResult.incomplete}. These results are incomplete
+                        and only cover the part of the repository scanned before
+                        it stopped.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <ScanConfigSummary config={scanResult.config} />
+
+                  <ReportDownloads
+                    result={scanResult}
+                    // Scans run while signed out are not saved.
+                    scanId={(session && resultScanId) || undefined}
+                  />
+
                   <ScanResults
                     owner={selectedRepo.owner}
                     repo={selectedRepo.repo}
-                    secrets={secrets}
+                    gitRef={scanResult.ref}
+                    commitSha={scanResult.commitSha}
+                    mode={scanResult.mode}
+                    secrets={scanResult.secrets}
+                    suppressed={scanResult.suppressed}
+                    baseline={scanResult.baseline}
+                    incomplete={scanResult.incomplete}
+                    pullRequest={scanResult.pullRequest}
+                    scanId={resultScanId ?? undefined}
                     onOpenAuthModal={() => setAuthModalOpen(true)}
                   />
                 </div>
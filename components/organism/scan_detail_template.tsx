@@ -0,0 +1,238 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Shield } from "lucide-react";
+import { AuthModal } from "@/components/molecules/auth-modal";
+import { ScanResults } from "@/components/molecules/scan-results";
+import { ScanConfigSummary } from "@/components/molecules/scan-config-summary";
+import { ReportDownloads } from "@/components/molecules/report-downloads";
+import type { ScanResult } from "@/lib/github-api";
+import type { ScanSummary, StoredScan } from "@/lib/scan-store";
+
+const MODE_LABELS: Record<ScanResult["mode"], string> = {
+  api: "File by file",
+  archive: "Archive",
+  history: "Commit history",
+  "pull-request": "Pull request",
+};
+
+/** Number of failed files listed before the rest are summarised. */
+const FAILURES_SHOWN = 20;
+
+function formatDate(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function describeSummary(scan: ScanSummary): string {
+  const sha = scan.commitSha ? ` (${scan.commitSha.slice(0, 7)})` : "";
+  const findings = `${scan.findings} finding${scan.findings === 1 ? "" : "s"}`;
+  return `${formatDate(scan.startedAt)}: ${scan.ref}${sha}, ${findings}`;
+}
+
+interface ScanDetailTemplateProps {
+  scan: StoredScan;
+  /** Other scans of the repository the scan can be compared with. */
+  comparable: ScanSummary[];
+}
+
+export default function ScanDetailTemplate({
+  scan,
+  comparable,
+}: ScanDetailTemplateProps) {
+  const router = useRouter();
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+  const { result, progress, options } = scan;
+  const seconds = Math.round(
+    (Date.parse(scan.finishedAt) - Date.parse(scan.startedAt)) / 1000
+  );
+
+  const details: [string, string | number][] = [
+    ["Started", formatDate(scan.startedAt)],
+    ["Duration", `${seconds}s`],
+    ["Mode", MODE_LABELS[result?.mode ?? options.mode ?? "api"]],
+    ["Status", scan.status],
+  ];
+  if (options.pullRequest) {
+    details.push(["Pull request", `#${options.pullRequest}`]);
+  }
+  if (scan.trigger) details.push(["Started by", scan.trigger]);
+  if (scan.actor) details.push(["Authenticated as", scan.actor]);
+  if (progress) {
+    details.push(
+      ["Files scanned", progress.filesScanned],
+      ["Files skipped", progress.filesSkipped],
+      ["Files failed", progress.filesFailed],
+      ["API calls", progress.apiCalls]
+    );
+  }
+  if (progress?.commits) {
+    details.push([
+      "Commits",
+      `${progress.commits.scanned} / ${progress.commits.total}`,
+    ]);
+  }
+  if (options.rulesets.length > 0) {
+    details.push(["Rule sets", options.rulesets.join(", ")]);
+  }
+  if (options.baseline) details.push(["Baseline", options.baseline]);
+  if (options.verify) details.push(["Verification", "enabled"]);
+
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:gap-3">
+            <div className="bg-red-500 p-2 rounded-lg w-fit mx-auto sm:mx-0 mb-2 sm:mb-0">
+              <Shield className="w-6 h-6 text-white" />
+            </div>
+            <div className="text-center sm:text-left">
+              <h1 className="text-2xl sm:text-3xl font-bold text-white">
+                {scan.owner}/{scan.repo}
+              </h1>
+              <p className="text-slate-400 text-sm sm:text-base">
+                {scan.ref}{" "}
+                {result && (
+                  <span className="font-mono">
+                    ({result.commitSha.slice(0, 7)})
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              asChild
+              variant="outline"
+              className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+            >
+              <Link href="/scans">History</Link>
+            </Button>
+            <Button
+              asChild
+              variant="outline"
+              className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+            >
+              <Link href="/">New Scan</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {details.map(([label, value]) => (
+                <div key={label} className="bg-slate-900/50 rounded p-3">
+                  <dt className="text-xs text-slate-400">{label}</dt>
+                  <dd className="text-sm font-semibold text-white break-all">
+                    {value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            {result && comparable.length > 0 && (
+              <label className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-slate-400">
+                <span>Compare with</span>
+                <select
+                  defaultValue=""
+                  onChange={(e) =>
+                    router.push(
+                      `/scans/compare?base=${e.target.value}&head=${scan.id}`
+                    )
+                  }
+                  className="rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-white"
+                >
+                  <option value="" disabled>
+                    Choose a scan
+                  </option>
+                  {comparable.map((other) => (
+                    <option key={other.id} value={other.id}>
+                      {describeSummary(other)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {scan.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <AlertDescription>{scan.error}</AlertDescription>
+              </Alert>
+            )}
+
+            {result?.incomplete && (
+              <Alert className="bg-amber-900/30 border-amber-700 text-amber-100">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <AlertDescription className="text-sm">
+                  {result.incomplete}. These results are incomplete and only
+                  cover the part of the repository scanned before it stopped.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {scan.failures.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-white">
+                  Could not be read
+                </h3>
+                <ul className="space-y-1 text-sm">
+                  {scan.failures.slice(0, FAILURES_SHOWN).map((failure) => (
+                    <li key={failure.path} className="flex flex-wrap gap-2">
+                      <span className="text-slate-200 font-mono break-all">
+                        {failure.path}
+                      </span>
+                      {failure.error && (
+                        <span className="text-slate-400">{failure.error}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {scan.failures.length > FAILURES_SHOWN && (
+                  <Badge variant="outline" className="text-slate-300">
+                    and {scan.failures.length - FAILURES_SHOWN} more
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {result && (
+              <>
+                <ScanConfigSummary config={result.config} />
+
+                <ReportDownloads result={result} scanId={scan.id} />
+
+                <ScanResults
+                  owner={scan.owner}
+                  repo={scan.repo}
+                  gitRef={result.ref}
+                  commitSha={result.commitSha}
+                  mode={result.mode}
+                  secrets={result.secrets}
+                  suppressed={result.suppressed}
+                  baseline={result.baseline}
+                  incomplete={result.incomplete}
+                  pullRequest={result.pullRequest}
+                  scanId={scan.id}
+                  onOpenAuthModal={() => setAuthModalOpen(true)}
+                />
+              </>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <AuthModal
+        isOpen={authModalOpen}
+        onClose={() => setAuthModalOpen(false)}
+      />
+    </main>
+  );
+}
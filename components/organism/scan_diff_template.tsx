@@ -0,0 +1,203 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, FileDown, GitCompare } from "lucide-react";
+import type { SecretMatch } from "@/lib/github-api";
+import { diffFindings } from "@/lib/scan-diff";
+import { buildDiffReport, toDiffCsv, toJson } from "@/lib/report";
+import { downloadFile } from "@/lib/download";
+import type { StoredScan } from "@/lib/scan-store";
+
+function formatDate(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function describeScan(scan: StoredScan): string {
+  const sha = scan.result ? ` (${scan.result.commitSha.slice(0, 7)})` : "";
+  return `${scan.ref}${sha}, ${formatDate(scan.startedAt)}`;
+}
+
+interface FindingListProps {
+  title: string;
+  description: string;
+  findings: SecretMatch[];
+  className: string;
+}
+
+function FindingList({
+  title,
+  description,
+  findings,
+  className,
+}: FindingListProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold text-white">{title}</h3>
+        <Badge variant="outline" className={className}>
+          {findings.length}
+        </Badge>
+      </div>
+      <p className="text-xs text-slate-400">{description}</p>
+      {findings.length > 0 && (
+        <ul className="space-y-1">
+          {findings.map((finding, index) => (
+            <li
+              key={`${finding.fingerprint}:${finding.commitSha}:${finding.line}:${index}`}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              <Badge variant="destructive">{finding.severity}</Badge>
+              <span className="text-slate-200">{finding.name}</span>
+              <span className="text-slate-400 font-mono break-all">
+                {finding.file}:{finding.line}
+              </span>
+              {finding.commitSha && (
+                <span className="text-slate-500 font-mono">
+                  {finding.commitSha.slice(0, 7)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface ScanDiffTemplateProps {
+  /** The earlier scan. */
+  base: StoredScan;
+  /** The later scan. */
+  head: StoredScan;
+}
+
+export default function ScanDiffTemplate({
+  base,
+  head,
+}: ScanDiffTemplateProps) {
+  const sameRepo = base.owner === head.owner && base.repo === head.repo;
+  const problem = !sameRepo
+    ? "Only scans of the same repository can be compared."
+    : !base.result || !head.result
+    ? "A failed scan has no findings to compare."
+    : "";
+
+  const diff =
+    base.result && head.result && !problem
+      ? diffFindings(base.result.secrets, head.result.secrets)
+      : null;
+
+  const handleDownload = (format: "json" | "csv") => {
+    if (!base.result || !head.result) return;
+    const report = buildDiffReport(base.result, head.result);
+    const name = `${head.repo}-${report.base.commitSha.slice(
+      0,
+      7
+    )}..${report.head.commitSha.slice(0, 7)}-diff.${format}`;
+    if (format === "json") {
+      downloadFile(name, toJson(report), "application/json");
+    } else {
+      downloadFile(name, toDiffCsv(report), "text/csv");
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:gap-3">
+            <div className="bg-red-500 p-2 rounded-lg w-fit mx-auto sm:mx-0 mb-2 sm:mb-0">
+              <GitCompare className="w-6 h-6 text-white" />
+            </div>
+            <div className="text-center sm:text-left">
+              <h1 className="text-2xl sm:text-3xl font-bold text-white">
+                {head.owner}/{head.repo}
+              </h1>
+              <p className="text-slate-400 text-sm sm:text-base">
+                <Link href={`/scans/${base.id}`} className="hover:underline">
+                  {describeScan(base)}
+                </Link>{" "}
+                →{" "}
+                <Link href={`/scans/${head.id}`} className="hover:underline">
+                  {describeScan(head)}
+                </Link>
+              </p>
+            </div>
+          </div>
+          <Button
+            asChild
+            variant="outline"
+            className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+          >
+            <Link href="/scans">History</Link>
+          </Button>
+        </div>
+
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          {problem ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <AlertDescription>{problem}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-6">
+              {(base.result?.incomplete || head.result?.incomplete) && (
+                <Alert className="bg-amber-900/30 border-amber-700 text-amber-100">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <AlertDescription className="text-sm">
+                    One of the scans is incomplete, so findings it did not get
+                    to can show up as new or resolved.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-slate-400">Export</span>
+                {(["json", "csv"] as const).map((format) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDownload(format)}
+                    className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+                  >
+                    <FileDown className="w-4 h-4" />
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+
+              {diff && (
+                <>
+                  <FindingList
+                    title="New"
+                    description="Found by the later scan only."
+                    findings={diff.added}
+                    className="bg-red-900/40 text-red-300 border-red-700"
+                  />
+                  <FindingList
+                    title="Resolved"
+                    description="Found by the earlier scan only."
+                    findings={diff.resolved}
+                    className="bg-green-900/40 text-green-300 border-green-700"
+                  />
+                  <FindingList
+                    title="Still present"
+                    description="Found by both scans, even if the lines moved."
+                    findings={diff.unchanged}
+                    className="text-slate-300"
+                  />
+                </>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,118 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { History, Shield } from "lucide-react";
+import type { ScanSummary } from "@/lib/scan-store";
+
+const STATUS_STYLES: Record<ScanSummary["status"], string> = {
+  completed: "bg-green-900/40 text-green-300 border-green-700",
+  incomplete: "bg-amber-900/40 text-amber-300 border-amber-700",
+  failed: "bg-red-900/40 text-red-300 border-red-700",
+};
+
+const MODE_LABELS: Record<ScanSummary["mode"], string> = {
+  api: "File by file",
+  archive: "Archive",
+  history: "Commit history",
+  "pull-request": "Pull request",
+};
+
+function formatDate(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+interface ScanHistoryTemplateProps {
+  scans: ScanSummary[];
+  signedIn: boolean;
+}
+
+export default function ScanHistoryTemplate({
+  scans,
+  signedIn,
+}: ScanHistoryTemplateProps) {
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:gap-3">
+            <div className="bg-red-500 p-2 rounded-lg w-fit mx-auto sm:mx-0 mb-2 sm:mb-0">
+              <Shield className="w-6 h-6 text-white" />
+            </div>
+            <div className="text-center sm:text-left">
+              <h1 className="text-2xl sm:text-3xl font-bold text-white">
+                Scan History
+              </h1>
+              <p className="text-slate-400 text-sm sm:text-base">
+                Earlier scans and their findings
+              </p>
+            </div>
+          </div>
+          <Button
+            asChild
+            variant="outline"
+            className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+          >
+            <Link href="/">New Scan</Link>
+          </Button>
+        </div>
+
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          {!signedIn ? (
+            <div className="text-center py-8 text-slate-400">
+              <History className="w-8 h-8 mx-auto mb-3" />
+              <p>
+                Sign in to keep a history of your scans. Scans run while signed
+                out are not saved.
+              </p>
+            </div>
+          ) : scans.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              <History className="w-8 h-8 mx-auto mb-3" />
+              <p>No scans yet. Scans you run are listed here.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-700">
+              {scans.map((scan) => (
+                <li key={scan.id}>
+                  <Link
+                    href={`/scans/${scan.id}`}
+                    className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3 px-2 rounded hover:bg-slate-700/50"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">
+                        {scan.owner}/{scan.repo} @ {scan.ref}{" "}
+                        {scan.commitSha && (
+                          <span className="font-mono text-slate-400">
+                            ({scan.commitSha.slice(0, 7)})
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {formatDate(scan.startedAt)} · {MODE_LABELS[scan.mode]}
+                        {scan.error && ` · ${scan.error}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline" className="text-slate-300">
+                        {scan.findings} finding
+                        {scan.findings === 1 ? "" : "s"}
+                      </Badge>
+                      <Badge
+                        variant="outline"
+                        className={STATUS_STYLES[scan.status]}
+                      >
+                        {scan.status}
+                      </Badge>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
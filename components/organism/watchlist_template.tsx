@@ -0,0 +1,288 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Eye, Github, Loader2, Trash2 } from "lucide-react";
+import { AuthModal } from "@/components/molecules/auth-modal";
+import { addToWatchlist } from "@/app/actions/add_to_watchlist";
+import { removeFromWatchlist } from "@/app/actions/remove_from_watchlist";
+import type { WatchedRepository, WatchSchedule } from "@/lib/watchlist";
+
+const STATUS_STYLES: Record<
+  NonNullable<WatchedRepository["lastRun"]>["status"],
+  string
+> = {
+  completed: "bg-green-900/40 text-green-300 border-green-700",
+  incomplete: "bg-amber-900/40 text-amber-300 border-amber-700",
+  failed: "bg-red-900/40 text-red-300 border-red-700",
+};
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-slate-600 bg-slate-900 px-3 text-sm text-white";
+
+function formatDate(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+interface WatchlistTemplateProps {
+  entries: WatchedRepository[];
+  signedIn: boolean;
+}
+
+export default function WatchlistTemplate({
+  entries,
+  signedIn,
+}: WatchlistTemplateProps) {
+  const router = useRouter();
+  const [repository, setRepository] = useState("");
+  const [ref, setRef] = useState("");
+  const [mode, setMode] = useState<WatchedRepository["mode"]>("archive");
+  const [schedule, setSchedule] = useState<WatchSchedule>("daily");
+  const [isSaving, setIsSaving] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const [owner = "", repo = ""] = repository.trim().split("/");
+    setError("");
+    setIsSaving(true);
+    const result = await addToWatchlist(owner, repo, { ref, mode, schedule });
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error ?? "Failed to watch repository");
+      return;
+    }
+    setRepository("");
+    setRef("");
+    router.refresh();
+  };
+
+  const handleRemove = async (id: string) => {
+    setError("");
+    setRemoving(id);
+    const result = await removeFromWatchlist(id);
+    setRemoving(null);
+    if (!result.success) setError(result.error ?? "Failed to remove");
+    router.refresh();
+  };
+
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:gap-3">
+            <div className="bg-red-500 p-2 rounded-lg w-fit mx-auto sm:mx-0 mb-2 sm:mb-0">
+              <Eye className="w-6 h-6 text-white" />
+            </div>
+            <div className="text-center sm:text-left">
+              <h1 className="text-2xl sm:text-3xl font-bold text-white">
+                Watchlist
+              </h1>
+              <p className="text-slate-400 text-sm sm:text-base">
+                Repositories rescanned daily or weekly by the server
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              asChild
+              variant="outline"
+              className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+            >
+              <Link href="/scans">History</Link>
+            </Button>
+            <Button
+              asChild
+              variant="outline"
+              className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent w-full sm:w-auto"
+            >
+              <Link href="/">New Scan</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          {!signedIn ? (
+            <div className="text-center py-8 space-y-4">
+              <p className="text-slate-400">
+                Sign in to watch repositories. Rescans are listed in your scan
+                history.
+              </p>
+              <Button
+                onClick={() => setAuthModalOpen(true)}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                <Github className="w-4 h-4 mr-2" />
+                Authenticate
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <form
+                onSubmit={handleAdd}
+                className="flex flex-col lg:flex-row gap-2"
+              >
+                <Input
+                  placeholder="owner/repo"
+                  value={repository}
+                  onChange={(e) => setRepository(e.target.value)}
+                  disabled={isSaving}
+                  className="text-white lg:flex-1"
+                />
+                <Input
+                  placeholder="Default branch"
+                  value={ref}
+                  onChange={(e) => setRef(e.target.value)}
+                  disabled={isSaving}
+                  className="text-white lg:w-40"
+                />
+                <select
+                  value={mode}
+                  onChange={(e) =>
+                    setMode(e.target.value as WatchedRepository["mode"])
+                  }
+                  disabled={isSaving}
+                  className={SELECT_CLASS}
+                >
+                  <option value="archive">Archive (1 API call)</option>
+                  <option value="api">File by file</option>
+                </select>
+                <select
+                  value={schedule}
+                  onChange={(e) => setSchedule(e.target.value as WatchSchedule)}
+                  disabled={isSaving}
+                  className={SELECT_CLASS}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+                <Button
+                  type="submit"
+                  disabled={isSaving || !repository.includes("/")}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Watch
+                </Button>
+              </form>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {entries.length === 0 ? (
+                <p className="text-center py-8 text-slate-400">
+                  No watched repositories yet.
+                </p>
+              ) : (
+                <ul className="divide-y divide-slate-700">
+                  {entries.map((entry) => {
+                    const run = entry.lastRun;
+                    const flagged = Boolean(run && run.newFindings > 0);
+                    return (
+                      <li
+                        key={entry.id}
+                        className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3 px-2 ${
+                          flagged ? "border-l-2 border-red-500" : ""
+                        }`}
+                      >
+                        <div className="min-w-0 space-y-1">
+                          <p className="text-white font-medium truncate">
+                            {entry.owner}/{entry.repo}
+                            {entry.ref && ` @ ${entry.ref}`}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            {entry.schedule === "daily" ? "Daily" : "Weekly"},{" "}
+                            {entry.mode === "archive"
+                              ? "archive"
+                              : "file by file"}{" "}
+                            · next {formatDate(entry.nextRunAt)}
+                          </p>
+                          {run ? (
+                            <p className="text-xs text-slate-400">
+                              Last scanned {formatDate(run.finishedAt)}:{" "}
+                              <Link
+                                href={`/scans/${run.scanId}`}
+                                className="text-slate-200 hover:underline"
+                              >
+                                {run.findings} finding
+                                {run.findings === 1 ? "" : "s"}
+                              </Link>
+                              {run.comparedWith && (
+                                <>
+                                  {" "}
+                                  ·{" "}
+                                  <Link
+                                    href={`/scans/compare?base=${run.comparedWith}&head=${run.scanId}`}
+                                    className="text-slate-200 hover:underline"
+                                  >
+                                    compare with previous
+                                  </Link>
+                                </>
+                              )}
+                              {run.error && ` · ${run.error}`}
+                            </p>
+                          ) : (
+                            <p className="text-xs text-slate-400">
+                              Not scanned yet
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {flagged && (
+                            <Badge variant="destructive">
+                              {run?.newFindings} new
+                            </Badge>
+                          )}
+                          {run && (
+                            <Badge
+                              variant="outline"
+                              className={STATUS_STYLES[run.status]}
+                            >
+                              {run.status}
+                            </Badge>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRemove(entry.id)}
+                            disabled={removing === entry.id}
+                            aria-label={`Stop watching ${entry.owner}/${entry.repo}`}
+                            className="text-slate-300 border-slate-600 hover:bg-slate-700 bg-transparent"
+                          >
+                            {removing === entry.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <AuthModal
+        isOpen={authModalOpen}
+        onClose={() => setAuthModalOpen(false)}
+      />
+    </main>
+  );
+}
@@ -1,3 +1,12 @@
+/**
+ * The part of `RegExp` the scanner uses. Built-in patterns are `RegExp`s;
+ * custom and imported rules run on RE2, see `compileRuleRegex`.
+ */
+export type PatternRegExp = Pick<
+  RegExp,
+  "source" | "flags" | "global" | "lastIndex" | "exec" | "test"
+>;
+
 /**
  * Secret detection patterns used by the repository scanner.
  *
@@ -9,12 +18,25 @@
  *   name: string,         // human-friendly name
  *   regex: RegExp,        // regular expression to detect the secret
  *   description: string,  // short explanation of what the secret is
- *   severity: string      // severity level: 'low' | 'medium' | 'high' | 'critical'
+ *   severity: string,     // severity level: 'low' | 'medium' | 'high' | 'critical'
+ *   multiline?: boolean   // match against whole blocks of text, not single lines
+ *   keywords?: string[],  // only try the regex on text containing one of these
+ *   secretGroup?: number, // capture group holding the secret, 0 for the first non-empty one
+ *   entropy?: number,     // minimum Shannon entropy of the secret
+ *   allowlist?: { regexes?: RegExp[]; paths?: RegExp[]; stopwords?: string[] }
  * }
  *
  * Notes:
  * - The `severity` field is used for UI/reporting only and does not affect
  *   the detection algorithm.
+ * - Multi-line patterns must use the `g` flag. They are matched against runs
+ *   of consecutive lines and report the line range they span; single-line
+ *   findings inside that range are dropped in favour of the multi-line one.
+ * - The optional `keywords`, `secretGroup`, `entropy` and `allowlist` fields
+ *   carry the semantics of imported Gitleaks rules (see `lib/rulesets.ts`).
+ *   Keywords are compared case-insensitively; allowlist regexes are tested
+ *   against the secret, allowlist paths against the file path, and a secret
+ *   containing a stopword is ignored.
  *
  * Example usage:
  * for (const pattern of SECRET_PATTERNS) {
@@ -24,14 +46,23 @@
  *   }
  * }
  *
- * @type {{id: string; name: string; regex: RegExp; description: string; severity: string}[]}
+ * @type {{id: string; name: string; regex: PatternRegExp; description: string; severity: string; multiline?: boolean; keywords?: string[]; secretGroup?: number; entropy?: number; allowlist?: {regexes?: PatternRegExp[]; paths?: PatternRegExp[]; stopwords?: string[]}}[]}
  */
 export const SECRET_PATTERNS: {
   id: string;
   name: string;
-  regex: RegExp;
+  regex: PatternRegExp;
   description: string;
   severity: "low" | "medium" | "high" | "critical";
+  multiline?: boolean;
+  keywords?: string[];
+  secretGroup?: number;
+  entropy?: number;
+  allowlist?: {
+    regexes?: PatternRegExp[];
+    paths?: PatternRegExp[];
+    stopwords?: string[];
+  };
 }[] = [
   {
     id: "aws_access_key",
@@ -136,9 +167,29 @@ export const SECRET_PATTERNS: {
   {
     id: "private_key",
     name: "Private RSA/SSH Key",
-    regex: /-----BEGIN( RSA| DSA| EC)? PRIVATE KEY-----/g,
+    regex:
+      /-----BEGIN ((?:RSA |DSA |EC |OPENSSH |ENCRYPTED )?)PRIVATE KEY-----(?:(?:\r?\n|\\n)[A-Za-z-]+: [^\r\n\\]*)*(?:\r?\n|\\n)?(?:\r?\n|\\n)[ \t]*[A-Za-z0-9+/=]{16,}(?:(?:\r?\n|\\n)[ \t]*[A-Za-z0-9+/=]+)*\s*(?:\\n)?-----END \1PRIVATE KEY-----/g,
     description: "Private cryptographic key — must never be shared.",
     severity: "critical",
+    multiline: true,
+  },
+  {
+    id: "private_key_header",
+    name: "Private Key Header Without Key",
+    regex: /-----BEGIN( RSA| DSA| EC| OPENSSH| ENCRYPTED)? PRIVATE KEY-----/g,
+    description:
+      "Private key header with no key body, usually documentation or a placeholder.",
+    severity: "low",
+  },
+  {
+    id: "gcp_service_account",
+    name: "GCP Service Account Key",
+    regex:
+      /"type"\s*:\s*"service_account"[\s\S]{0,2000}?"private_key"\s*:\s*"-----BEGIN [A-Z ]*PRIVATE KEY-----(?:\\n|[A-Za-z0-9+/=])+-----END [A-Z ]*PRIVATE KEY-----(?:\\n)?"/g,
+    description:
+      "Google Cloud service-account JSON key that grants the account's IAM permissions.",
+    severity: "critical",
+    multiline: true,
   },
   {
     id: "jwt_token",
@@ -196,3 +247,25 @@ export const SECRET_PATTERNS: {
     severity: "low",
   },
 ];
+
+/** A single entry of `SECRET_PATTERNS`. */
+export type SecretPattern = (typeof SECRET_PATTERNS)[number];
+
+/**
+ * Metadata for findings reported by the Shannon-entropy detector rather than
+ * by one of the regexes above. High-entropy strings are random-looking values
+ * (tokens, keys, passwords) for which no vendor-specific pattern exists, so
+ * they are reported with a lower confidence than a pattern match.
+ */
+export const ENTROPY_PATTERN: {
+  id: string;
+  name: string;
+  description: string;
+  severity: "low" | "medium" | "high" | "critical";
+} = {
+  id: "high_entropy_string",
+  name: "High-Entropy String",
+  description:
+    "Random-looking value that may be a credential from a provider without a dedicated pattern.",
+  severity: "medium",
+};
@@ -0,0 +1,36 @@
+/**
+ * Remediation advice included in every report of detected secrets: the
+ * GitHub issue body and the PDF audit report.
+ *
+ * `detail` may contain Markdown inline code (backticks); renderers that do
+ * not support Markdown should strip them.
+ */
+export const REMEDIATION_STEPS: { action: string; detail: string }[] = [
+  { action: "Rotate all exposed credentials", detail: "immediately." },
+  {
+    action: "Remove secrets from git history",
+    detail: "using `git filter-branch` or `BFG Repo-Cleaner`.",
+  },
+  {
+    action: "Move secrets to environment variables",
+    detail: "or a secret manager (e.g., GitHub Secrets, AWS Secrets Manager).",
+  },
+  { action: "Enable secret scanning", detail: "in repository settings." },
+  { action: "Review recent commits", detail: "for any unauthorized access." },
+];
+
+/** Further reading listed after `REMEDIATION_STEPS`. */
+export const REMEDIATION_RESOURCES: { title: string; url: string }[] = [
+  {
+    title: "GitHub Secret Scanning",
+    url: "https://docs.github.com/en/code-security/secret-scanning",
+  },
+  {
+    title: "Removing sensitive data from git",
+    url: "https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/removing-sensitive-data-from-a-repository",
+  },
+  {
+    title: "BFG Repo-Cleaner",
+    url: "https://rtyley.github.io/bfg-repo-cleaner/",
+  },
+];
@@ -0,0 +1,11 @@
+export async function register() {
+  // Scheduled rescans need Node.js (file storage) and should run once per
+  // deployment; set SCHEDULED_SCANS=off on all but one instance.
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    process.env.SCHEDULED_SCANS !== "off"
+  ) {
+    const { startWatchScheduler } = await import("@/lib/watch-scheduler");
+    startWatchScheduler();
+  }
+}
@@ -0,0 +1,167 @@
+import type { ScanResult, SecretMatch } from "@/lib/github-api";
+import type { FindingDiff } from "@/lib/scan-diff";
+
+/** Title of the issues the scanner opens for a repository's findings. */
+export const ALERT_ISSUE_TITLE = "Security Alert: Potential Secrets Detected";
+
+/** Labels of the alert issue; the first one is used to look it up. */
+export const ALERT_ISSUE_LABELS = ["security", "bug"];
+
+/**
+ * Hidden marker at the top of the alert issue's body, naming the ref the
+ * issue tracks. Issues without it are never updated or closed by the
+ * scanner. The ref is URL-encoded, with `-` too so it cannot end the
+ * comment early.
+ */
+function alertMarker(ref: string): string {
+  const encoded = encodeURIComponent(ref).replace(/-/g, "%2D");
+  return `<!-- secretscan:alert ref=${encoded} -->`;
+}
+
+const FINDINGS_MARKER = /<!-- secretscan:findings (\[.*?\]) -->/;
+
+/**
+ * Whether a scan's findings are the whole state of its ref, so it may
+ * create, update or close the ref's alert issue: only complete snapshot
+ * scans (`api` and `archive`) are. History and pull-request scans look at
+ * other commits, and incomplete scans at part of the files.
+ *
+ * @example
+ * if (tracksAlertIssue(result)) await syncAlertIssue();
+ *
+ * @param {{ mode: ScanResult["mode"]; incomplete?: string }} scan - The scan.
+ * @returns {boolean} `true` when the scan may maintain the alert issue.
+ */
+export function tracksAlertIssue(scan: {
+  mode?: ScanResult["mode"];
+  incomplete?: string;
+}): boolean {
+  return (scan.mode === "api" || scan.mode === "archive") && !scan.incomplete;
+}
+
+/** What the alert issue records of a finding, without the secret. */
+export interface IssueFinding {
+  fingerprint: string;
+  file: string;
+  line: number;
+  name: string;
+  severity: SecretMatch["severity"];
+}
+
+/**
+ * Describe a finding for the alert issue.
+ *
+ * @param {SecretMatch} secret - The finding, with `fingerprint` set.
+ * @returns {IssueFinding} The finding as the issue records it.
+ */
+export function toIssueFinding(
+  secret: SecretMatch & { fingerprint: string }
+): IssueFinding {
+  return {
+    fingerprint: secret.fingerprint,
+    file: secret.file,
+    line: secret.line,
+    name: secret.name,
+    severity: secret.severity,
+  };
+}
+
+/**
+ * The title of the alert issue of a ref; `HEAD` stands for the default
+ * branch.
+ *
+ * @param {string} ref - The branch or tag the issue tracks.
+ * @returns {string} The issue title.
+ */
+export function alertIssueTitle(ref: string): string {
+  return ref === "HEAD" ? ALERT_ISSUE_TITLE : `${ALERT_ISSUE_TITLE} in ${ref}`;
+}
+
+/**
+ * The hidden header of the alert issue's body: the alert marker of the ref
+ * and the findings the body lists, so the next update can tell what
+ * changed.
+ *
+ * @example
+ * const body = `${alertIssueHeader('main', findings)}\n## Security Alert ...`;
+ *
+ * @param {string} ref - The branch or tag the issue tracks.
+ * @param {IssueFinding[]} findings - The findings listed in the body.
+ * @returns {string} Two lines of HTML comments, invisible on GitHub.
+ */
+export function alertIssueHeader(
+  ref: string,
+  findings: IssueFinding[]
+): string {
+  // Keep file names from ending the comment early.
+  const embedded = JSON.stringify(findings).replace(/--/g, "-\\u002d");
+  return `${alertMarker(ref)}\n<!-- secretscan:findings ${embedded} -->`;
+}
+
+/**
+ * Read the findings recorded in an issue body written with
+ * `alertIssueHeader` for the same ref.
+ *
+ * @example
+ * const previous = parseAlertIssue(issue.body, 'main');
+ * if (previous) console.log(previous.length, 'findings listed');
+ *
+ * @param {string | null} body - The issue body.
+ * @param {string} ref - The branch or tag the issue should track.
+ * @returns {IssueFinding[] | null} The findings, or `null` when the issue
+ *   is not the scanner's alert issue of `ref`.
+ */
+export function parseAlertIssue(
+  body: string | null,
+  ref: string
+): IssueFinding[] | null {
+  if (!body?.startsWith(`${alertMarker(ref)}\n`)) return null;
+  const embedded = body.match(FINDINGS_MARKER)?.[1];
+  if (!embedded) return [];
+  try {
+    return JSON.parse(embedded) as IssueFinding[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The comment posted on the alert issue when a scan changes its findings:
+ * the new findings and the ones no longer detected, by file and line.
+ *
+ * @example
+ * const comment = describeIssueChanges(diffFindings(previous, current), 'main@abc1234');
+ *
+ * @param {FindingDiff<IssueFinding>} diff - Recorded versus current findings.
+ * @param {string} [scanned] - What was scanned, e.g. `` `main` at `abc1234` ``.
+ * @returns {string} The comment, in Markdown.
+ */
+export function describeIssueChanges(
+  diff: FindingDiff<IssueFinding>,
+  scanned?: string
+): string {
+  const list = (findings: IssueFinding[]) =>
+    findings
+      .map(
+        (finding) =>
+          `- \`${finding.file}:${finding.line}\` ${
+            finding.name
+          } (**${finding.severity.toUpperCase()}**)`
+      )
+      .join("\n");
+
+  const sections = [
+    `Findings updated by a new scan${scanned ? ` of ${scanned}` : ""}: ${
+      diff.added.length
+    } new, ${diff.resolved.length} resolved, ${
+      diff.unchanged.length
+    } still present.`,
+  ];
+  if (diff.added.length > 0) {
+    sections.push(`#### New findings\n${list(diff.added)}`);
+  }
+  if (diff.resolved.length > 0) {
+    sections.push(`#### No longer detected\n${list(diff.resolved)}`);
+  }
+  return sections.join("\n\n");
+}
@@ -0,0 +1,202 @@
+import type { SecretMatch } from "@/lib/github-api";
+
+/** Baseline file looked up at the root of a scanned repository. */
+export const BASELINE_FILE = ".secretscan-baseline.json";
+
+/** A known finding recorded in a baseline. Never holds the secret itself. */
+export interface BaselineEntry {
+  fingerprint: string;
+  type: string;
+  file: string;
+  line: number;
+}
+
+/**
+ * A set of accepted findings. Findings whose fingerprint is in the baseline
+ * are reported as `existing` instead of `new`.
+ */
+export interface Baseline {
+  version: 1;
+  /** Where the baseline was read from, or `owner/repo` for a fresh export. */
+  source: string;
+  generatedAt: string;
+  commitSha?: string;
+  findings: BaselineEntry[];
+}
+
+/** A scan compared against a baseline. */
+export interface BaselineComparison {
+  source: string;
+  /** Baseline findings that the scan no longer found. */
+  resolved: BaselineEntry[];
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Patterns whose match is only a keyword such as `password`, the same for
+ * every finding of the pattern in a file. Their findings are told apart by
+ * the whole line instead.
+ */
+const KEYWORD_PATTERNS = new Set(["generic_keyword"]);
+
+/**
+ * Compute the stable identity of a finding: an HMAC-SHA-256 of the
+ * repository, pattern id, file path and matched text with whitespace
+ * collapsed (the whole line for keyword-only patterns). Line numbers are
+ * left out so that a finding keeps its fingerprint when code above it moves.
+ *
+ * Fingerprints end up in issue bodies, SARIF logs and committed baselines,
+ * so they must not allow guessing weak secrets offline. The HMAC is keyed
+ * with `FINGERPRINT_KEY` when the server sets it, and with the repository
+ * name otherwise, so that a fingerprint cannot be checked against guesses
+ * computed for another repository.
+ *
+ * @example
+ * const fingerprint = await fingerprintSecret(match, "acme/payments");
+ *
+ * @param {SecretMatch} secret - The finding to identify.
+ * @param {string} repository - `owner/repo` the finding was found in.
+ * @returns {Promise<string>} Hex-encoded HMAC-SHA-256 fingerprint.
+ */
+export async function fingerprintSecret(
+  secret: SecretMatch,
+  repository: string
+): Promise<string> {
+  const name = repository.toLowerCase();
+  const value = (
+    KEYWORD_PATTERNS.has(secret.type)
+      ? secret.content
+      : secret.match ?? secret.content
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(process.env.FINGERPRINT_KEY || name),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${name}\0${secret.type}\0${secret.file}\0${value}`)
+  );
+  return toHex(digest);
+}
+
+/**
+ * Build a baseline accepting every given finding.
+ *
+ * @param {SecretMatch[]} secrets - Findings to accept, with `fingerprint` set.
+ * @param {{ source: string; commitSha?: string }} meta - Origin of the findings.
+ * @returns {Baseline} The baseline, ready to be written as JSON.
+ */
+export function createBaseline(
+  secrets: SecretMatch[],
+  meta: { source: string; commitSha?: string }
+): Baseline {
+  const findings = new Map<string, BaselineEntry>();
+  for (const { fingerprint, type, file, line } of secrets) {
+    if (fingerprint && !findings.has(fingerprint)) {
+      findings.set(fingerprint, { fingerprint, type, file, line });
+    }
+  }
+
+  return {
+    version: 1,
+    source: meta.source,
+    generatedAt: new Date().toISOString(),
+    commitSha: meta.commitSha,
+    findings: [...findings.values()],
+  };
+}
+
+/**
+ * Parse and validate the JSON content of a baseline file.
+ *
+ * @param {string} text - JSON content of the baseline.
+ * @param {string} source - File name, used in messages and the UI.
+ * @returns {Baseline} The validated baseline, with `source` set to `source`.
+ * @throws {Error} Throws with a message naming `source` when the JSON is
+ *   malformed or not a version 1 baseline.
+ */
+export function parseBaseline(text: string, source: string): Baseline {
+  try {
+    const raw = JSON.parse(text);
+    if (raw?.version !== 1) throw new Error("unsupported baseline version");
+    if (!Array.isArray(raw.findings)) {
+      throw new Error(`"findings" must be a list`);
+    }
+
+    return {
+      version: 1,
+      source,
+      generatedAt: String(raw.generatedAt ?? ""),
+      commitSha: typeof raw.commitSha === "string" ? raw.commitSha : undefined,
+      findings: raw.findings.map(
+        (entry: Partial<BaselineEntry>, index: number) => {
+          if (typeof entry?.fingerprint !== "string") {
+            throw new Error(`findings[${index}] needs a "fingerprint"`);
+          }
+          return {
+            fingerprint: entry.fingerprint,
+            type: String(entry.type ?? ""),
+            file: String(entry.file ?? ""),
+            line: Number(entry.line ?? 0),
+          };
+        }
+      ),
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid ${source}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Classify fingerprinted findings against a baseline.
+ *
+ * Each finding gets `baseline: "new"` or `baseline: "existing"`; baseline
+ * entries that no finding matches anymore are returned as resolved.
+ *
+ * @example
+ * const { secrets, comparison } = compareWithBaseline(result.secrets, baseline);
+ *
+ * @param {SecretMatch[]} secrets - Findings with `fingerprint` set.
+ * @param {Baseline} baseline - Accepted findings.
+ * @returns {{ secrets: SecretMatch[]; comparison: BaselineComparison }} The
+ *   classified findings and the resolved baseline entries.
+ */
+export function compareWithBaseline(
+  secrets: SecretMatch[],
+  baseline: Baseline
+): { secrets: SecretMatch[]; comparison: BaselineComparison } {
+  const known = new Set(baseline.findings.map((entry) => entry.fingerprint));
+  const found = new Set(secrets.map((secret) => secret.fingerprint));
+
+  return {
+    secrets: secrets.map((secret) => ({
+      ...secret,
+      baseline:
+        secret.fingerprint && known.has(secret.fingerprint)
+          ? "existing"
+          : "new",
+    })),
+    comparison: {
+      source: baseline.source,
+      resolved: baseline.findings.filter(
+        (entry) => !found.has(entry.fingerprint)
+      ),
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import {
+  assertRepositoryName,
+  GitHubAPIError,
+  type SecretMatch,
+} from "@/lib/github-api";
+import { maskSecret } from "@/lib/report";
+
+type Severity = SecretMatch["severity"];
+
+/** Name of the check run on the scanned commit. */
+export const CHECK_RUN_NAME = "Secret scan";
+
+/** Severity from which findings fail the check run unless `fail_on` is set. */
+export const DEFAULT_FAIL_ON: Severity = "high";
+
+/** GitHub accepts at most this many annotations per request. */
+const ANNOTATIONS_PER_REQUEST = 50;
+
+const SEVERITY_ORDER: Severity[] = ["low", "medium", "high", "critical"];
+
+const ANNOTATION_LEVELS: Record<Severity, CheckAnnotation["annotation_level"]> =
+  {
+    critical: "failure",
+    high: "failure",
+    medium: "warning",
+    low: "notice",
+  };
+
+export type CheckRunConclusion = "success" | "neutral" | "failure";
+
+/** A line annotation of a check run, as the checks API takes it. */
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title: string;
+  message: string;
+}
+
+/** The check run for a scan, see `toCheckRun`. */
+export interface CheckRun {
+  conclusion: CheckRunConclusion;
+  title: string;
+  summary: string;
+  annotations: CheckAnnotation[];
+}
+
+/**
+ * Decide the conclusion of a check run: `failure` when a finding is at
+ * least as severe as `failOn`, `neutral` when there are only less severe
+ * findings and `success` when there are none.
+ *
+ * @example
+ * checkRunConclusion(result.secrets, result.config?.failOn); // 'failure'
+ *
+ * @param {SecretMatch[]} secrets - The findings to report.
+ * @param {Severity} [failOn=DEFAULT_FAIL_ON] - Lowest failing severity.
+ * @returns {CheckRunConclusion} The conclusion.
+ */
+export function checkRunConclusion(
+  secrets: SecretMatch[],
+  failOn: Severity = DEFAULT_FAIL_ON
+): CheckRunConclusion {
+  if (secrets.length === 0) return "success";
+  const threshold = SEVERITY_ORDER.indexOf(failOn);
+  return secrets.some(
+    (secret) => SEVERITY_ORDER.indexOf(secret.severity) >= threshold
+  )
+    ? "failure"
+    : "neutral";
+}
+
+/**
+ * Build the check run for the findings of a scan: its conclusion (see
+ * `checkRunConclusion`), a Markdown summary counting the findings by
+ * severity, and one annotation per finding on the lines it spans, with the
+ * pattern's name, severity and description and the secret masked.
+ *
+ * Findings a baseline already accepted are left out, as in issues.
+ *
+ * @example
+ * const checkRun = toCheckRun(result.secrets, result.config?.failOn);
+ *
+ * @param {SecretMatch[]} secrets - The findings of the scan.
+ * @param {Severity} [failOn=DEFAULT_FAIL_ON] - Lowest failing severity.
+ * @returns {CheckRun} The check run.
+ */
+export function toCheckRun(
+  secrets: SecretMatch[],
+  failOn: Severity = DEFAULT_FAIL_ON
+): CheckRun {
+  const reported = secrets.filter((secret) => secret.baseline !== "existing");
+  const conclusion = checkRunConclusion(reported, failOn);
+
+  const counts = [...SEVERITY_ORDER]
+    .reverse()
+    .map((severity) => ({
+      severity,
+      count: reported.filter((secret) => secret.severity === severity).length,
+    }))
+    .filter(({ count }) => count > 0);
+  const summary =
+    reported.length === 0
+      ? "No potential secrets were detected."
+      : `| Severity | Findings |
+|----------|----------|
+${counts
+  .map(({ severity, count }) => `| **${severity.toUpperCase()}** | ${count} |`)
+  .join("\n")}
+
+The check fails on findings of **${failOn}** severity or above (set \`fail_on\` in \`.secretscan.yml\` to change this).`;
+
+  return {
+    conclusion,
+    title:
+      reported.length === 0
+        ? "No potential secrets"
+        : `${reported.length} potential secret(s) detected`,
+    summary,
+    annotations: reported.map((secret) => ({
+      path: secret.file,
+      start_line: secret.line,
+      end_line: secret.endLine ?? secret.line,
+      annotation_level: ANNOTATION_LEVELS[secret.severity],
+      title: `${secret.name} (${secret.severity})`,
+      message: `${secret.description} Matched ${maskSecret(
+        (secret.match ?? secret.content).replace(/\s+/g, " ")
+      )}.`,
+    })),
+  };
+}
+
+/**
+ * Create a completed check run on a commit.
+ *
+ * The checks API takes at most 50 annotations per request, so the run is
+ * created with the first 50 and the rest are added in further updates.
+ * Check runs can only be created with a GitHub App's installation token
+ * (see `getInstallationToken`); user tokens are refused.
+ *
+ * @example
+ * const { checkRunUrl } = await publishCheckRun('owner', 'repo', result.commitSha, toCheckRun(result.secrets), token);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} commitSha - The scanned commit.
+ * @param {CheckRun} checkRun - Built with `toCheckRun`.
+ * @param {string} token - Installation token with write access to checks.
+ * @returns {Promise<{ checkRunUrl: string }>} The check run's page.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function publishCheckRun(
+  owner: string,
+  repo: string,
+  commitSha: string,
+  checkRun: CheckRun,
+  token: string
+): Promise<{ checkRunUrl: string }> {
+  assertRepositoryName(owner, repo);
+  const api = `https://api.github.com/repos/${owner}/${repo}/check-runs`;
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${token}`,
+  };
+  const { conclusion, title, summary, annotations } = checkRun;
+  const batches: CheckAnnotation[][] = [];
+  for (let i = 0; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    batches.push(annotations.slice(i, i + ANNOTATIONS_PER_REQUEST));
+  }
+
+  try {
+    const response = await fetchWithRetry(api, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        name: CHECK_RUN_NAME,
+        head_sha: commitSha,
+        status: "completed",
+        conclusion,
+        completed_at: new Date().toISOString(),
+        output: { title, summary, annotations: batches[0] ?? [] },
+      }),
+    });
+    const created: { id: number; html_url: string } = await response.json();
+
+    for (const batch of batches.slice(1)) {
+      await fetchWithRetry(`${api}/${created.id}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({
+          output: { title, summary, annotations: batch },
+        }),
+      });
+    }
+    return { checkRunUrl: created.html_url };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error publishing check run:", error);
+    }
+    throw new GitHubAPIError(0, "Failed to publish the check run", false);
+  }
+}
@@ -0,0 +1,47 @@
+export interface DiffLine {
+  /** 1-based line number in the new version of the file. */
+  line: number;
+  content: string;
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Extract the lines added by a unified diff patch, as returned in the
+ * `patch` field of GitHub's commit, compare and pull request file APIs.
+ *
+ * Line numbers are tracked through each hunk header so every added line is
+ * reported with its line number in the new version of the file. Removed
+ * lines and `\ No newline at end of file` markers are ignored, and so is
+ * anything before the first hunk, such as `---`/`+++` file headers. Within
+ * a hunk every `+` line is an added line, even one whose content starts
+ * with `++`.
+ *
+ * @example
+ * parseAddedLines('@@ -1,2 +1,3 @@\n a\n+b\n c');
+ * // => [{ line: 2, content: 'b' }]
+ *
+ * @param {string} patch - Unified diff for a single file.
+ * @returns {DiffLine[]} Added lines in patch order.
+ */
+export function parseAddedLines(patch: string): DiffLine[] {
+  const added: DiffLine[] = [];
+  let lineNumber = 0;
+
+  for (const raw of patch.split("\n")) {
+    const hunk = HUNK_HEADER.exec(raw);
+    if (hunk) {
+      lineNumber = Number.parseInt(hunk[1], 10);
+      continue;
+    }
+    if (lineNumber === 0) continue;
+    if (raw.startsWith("+")) {
+      added.push({ line: lineNumber, content: raw.slice(1) });
+      lineNumber++;
+    } else if (raw.startsWith(" ")) {
+      lineNumber++;
+    }
+  }
+
+  return added;
+}
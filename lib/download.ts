@@ -0,0 +1,22 @@
+/**
+ * Save generated content as a file from the browser.
+ *
+ * @example
+ * downloadFile('report.csv', toCsv(report), 'text/csv');
+ *
+ * @param {string} name - File name offered to the user.
+ * @param {BlobPart} content - File content.
+ * @param {string} type - MIME type of the content.
+ */
+export function downloadFile(
+  name: string,
+  content: BlobPart,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
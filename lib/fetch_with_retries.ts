@@ -1,11 +1,17 @@
+import { rateLimitKey, recordRateLimit, waitForRateLimit } from "@/lib/rate-limit";
+
 export async function fetchWithRetry(
   url: string,
   options: RequestInit,
   retries = 3,
   delay = 1000
 ): Promise<Response> {
+  // API requests wait for the token's rate limit, see `waitForRateLimit`
+  const key = rateLimitKey(url, options);
   for (let i = 0; i < retries; i++) {
+    if (key !== null) await waitForRateLimit(key, options.signal);
     const res = await fetch(url, options);
+    if (key !== null) recordRateLimit(key, res);
     if (res.ok) return res;
     if (i < retries - 1) await new Promise((r) => setTimeout(r, delay));
   }
@@ -1,7 +1,41 @@
 import { getSession } from "next-auth/react";
 import { getRepositoryFiles } from "@/app/actions/get_git_repo_files";
 import { getFileContent } from "@/app/actions/get_file_content";
-import { SECRET_PATTERNS } from "@/constants/pattern";
+import { scanRepositoryArchive } from "@/app/actions/scan_repository_archive";
+import { getCommit, getCommits } from "@/app/actions/get_commits";
+import {
+  getPullRequest,
+  type PullRequestDetails,
+} from "@/app/actions/get_pull_request";
+import { resolveCommitSha } from "@/app/actions/get_repository_refs";
+import {
+  getRepositoryTextFile,
+  getScanConfigFile,
+} from "@/app/actions/get_scan_config";
+import { verifySecretMatches, type VerificationStatus } from "@/lib/verifiers";
+import {
+  parseScanConfig,
+  SCAN_CONFIG_FILES,
+  type ScanConfig,
+} from "@/lib/scan-config";
+import { applyRuleSets, type RuleSetSource } from "@/lib/rulesets";
+import {
+  BASELINE_FILE,
+  compareWithBaseline,
+  fingerprintSecret,
+  parseBaseline,
+  type Baseline,
+  type BaselineComparison,
+} from "@/lib/baseline";
+import { getSkipReason, scanCommit, scanContent } from "@/lib/secret-detection";
+import {
+  createScanProgress,
+  type ScanEvent,
+  type ScanProgressTracker,
+} from "@/lib/scan-progress";
+import type { PauseGate } from "@/lib/scan-control";
+import { mapWithConcurrency } from "@/lib/pool";
+import type { RateLimitInfo } from "@/lib/rate-limit";
 interface GitHubRepository {
   id: number;
   name: string;
@@ -21,13 +55,46 @@ export interface GitHubFile {
   path: string;
   type: "file" | "dir";
   size?: number;
+  sha?: string;
   download_url?: string;
 }
 
-interface RateLimitInfo {
-  remaining: number;
-  limit: number;
-  reset: number;
+export interface SecretMatch {
+  file: string;
+  line: number;
+  /** Last line of a multi-line match; undefined for single-line matches. */
+  endLine?: number;
+  /** 1-based column the matched secret starts at on `line`. */
+  column?: number;
+  content: string;
+  /** The exact text matched by the pattern. */
+  match?: string;
+  type: string;
+  name: string;
+  description: string;
+  severity: "low" | "medium" | "high" | "critical";
+  /** Why the value was flagged, for detectors without a fixed pattern. */
+  explanation?: string;
+  /** Result of live verification, when the scan was run with `verify`. */
+  verification?: VerificationStatus;
+  /**
+   * Commit the match was found in: the scanned commit for snapshot scans,
+   * or the commit that introduced the secret for history scans.
+   */
+  commitSha?: string;
+  commitAuthor?: string;
+  commitDate?: string;
+  /** Whether the secret is still present in the file at HEAD (history scans). */
+  presentAtHead?: boolean;
+  /**
+   * Why the finding was silenced by an inline `secretscan:allow` marker or
+   * the config allowlist. Suppressed findings are reported separately.
+   */
+  suppressed?: string;
+  /** Stable identity of the finding, see `fingerprintSecret`. */
+  fingerprint?: string;
+  /** Whether a baseline already knew the finding, when one was applied. */
+  baseline?: "new" | "existing";
 }
 
 export class GitHubAPIError extends Error {
@@ -41,6 +108,39 @@ export class GitHubAPIError extends Error {
   }
 }
 
+const OWNER_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,38}$/;
+const REPOSITORY_NAME = /^(?!\.\.?$)[A-Za-z0-9._-]{1,100}$/;
+
+/**
+ * Whether `owner` and `repo` are valid GitHub account and repository names,
+ * and so safe to put into an API URL as they are.
+ *
+ * @param {unknown} owner - Repository owner (user or organization).
+ * @param {unknown} repo - Repository name.
+ * @returns {boolean} `true` when both names are valid.
+ */
+export function isRepositoryName(owner: unknown, repo: unknown): boolean {
+  return (
+    typeof owner === "string" &&
+    typeof repo === "string" &&
+    OWNER_NAME.test(owner) &&
+    REPOSITORY_NAME.test(repo)
+  );
+}
+
+/**
+ * Throw unless `owner` and `repo` are valid names, see `isRepositoryName`.
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @throws {GitHubAPIError} Throws a 400 error for invalid names.
+ */
+export function assertRepositoryName(owner: string, repo: string): void {
+  if (!isRepositoryName(owner, repo)) {
+    throw new GitHubAPIError(400, "Invalid repository owner or name");
+  }
+}
+
 let rateLimitInfo: RateLimitInfo = {
   remaining: 0,
   limit: 0,
@@ -272,159 +372,706 @@ export async function searchRepositories(
   }
 }
 
+/**
+ * Options for a repository scan. Every option is optional; omitted options
+ * fall back to `DEFAULT_SCAN_OPTIONS`.
+ */
+export interface ScanOptions {
+  /**
+   * How file contents are retrieved. `"api"` fetches every file on its own;
+   * `"archive"` downloads the repository tarball once and scans it on the
+   * server, which costs a single API request. `"history"` scans the lines
+   * added by each commit instead of a single snapshot (see
+   * `scanRepositoryHistory`). `"pull-request"` scans the lines added by
+   * the diff of `pullRequest`.
+   */
+  mode?: "api" | "archive" | "history" | "pull-request";
+  /** Branch, tag or commit SHA to scan. Defaults to the default branch. */
+  ref?: string;
+  /** Maximum number of files to scan. */
+  maxFiles?: number;
+  /**
+   * Number of files (commits, for history scans) fetched in parallel, at
+   * most `MAX_CONCURRENCY`. API requests are slowed down further as the rate
+   * limit runs low, see `waitForRateLimit`.
+   */
+  concurrency?: number;
+  /** Maximum directory depth to scan (0 = repository root only). */
+  maxDepth?: number;
+  /** Files larger than this many bytes are skipped. */
+  maxFileSize?: number;
+  /** History scans: only commits after this ISO 8601 date. */
+  since?: string;
+  /** History scans: only commits before this ISO 8601 date. */
+  until?: string;
+  /** History scans: maximum number of commits to walk, newest first. */
+  maxCommits?: number;
+  /**
+   * History scans: scan exactly these commits instead of walking the history
+   * of `ref`, e.g. the commits of a push. `since`, `until` and `maxCommits`
+   * do not apply.
+   */
+  commits?: string[];
+  /**
+   * Pull-request scans: number of the pull request to scan. `ref` does not
+   * apply; the pull request's head commit is scanned.
+   */
+  pullRequest?: number;
+  /**
+   * Shannon-entropy detector settings. Values scoring above the threshold
+   * for their character set are reported as high-entropy findings.
+   */
+  entropy?: {
+    enabled?: boolean;
+    /** Bits per character above which a base64 value is reported. */
+    base64Threshold?: number;
+    /** Bits per character above which a hex value is reported. */
+    hexThreshold?: number;
+    /**
+     * Shorter values are never reported. Values of n characters score at
+     * most log2(n) bits per character, so this should not be below
+     * 2^threshold.
+     */
+    minLength?: number;
+  };
+  /**
+   * Check each finding against its provider (see `verifySecrets`) and record
+   * whether it is still live. Off by default because it sends the detected
+   * secrets to the provider APIs.
+   */
+  verify?: boolean;
+  /**
+   * Repository scanner config to apply. When omitted the scanner reads
+   * `.secretscan.yml` from the scanned commit; `null` scans without one.
+   */
+  config?: ScanConfig | null;
+  /**
+   * Gitleaks or detect-secrets rule sets to import on top of the config, for
+   * example files uploaded in the UI (see `applyRuleSets`).
+   */
+  rulesets?: RuleSetSource[];
+  /**
+   * Accepted findings to compare against. When omitted the scanner reads
+   * `.secretscan-baseline.json` from the scanned commit; `null` skips the
+   * comparison.
+   */
+  baseline?: Baseline | null;
+  /**
+   * Cancels the scan. The files scanned so far are still returned, in a
+   * result marked `incomplete`.
+   */
+  signal?: AbortSignal;
+  /** Pauses the scan between files, or commits for history scans. */
+  pause?: PauseGate;
+}
+
+/** Upper bound of `ScanOptions.concurrency`. */
+export const MAX_CONCURRENCY = 16;
+
+export const DEFAULT_SCAN_OPTIONS: Required<
+  Omit<
+    ScanOptions,
+    "config" | "baseline" | "signal" | "pause" | "commits" | "pullRequest"
+  >
+> = {
+  mode: "api",
+  ref: "HEAD",
+  maxFiles: Number.POSITIVE_INFINITY,
+  concurrency: 4,
+  maxDepth: Number.POSITIVE_INFINITY,
+  maxFileSize: 1024 * 1024,
+  since: "",
+  until: "",
+  maxCommits: Number.POSITIVE_INFINITY,
+  entropy: {},
+  verify: false,
+  rulesets: [],
+};
+
+/**
+ * The outcome of a repository scan, pinned to the exact commit that was
+ * scanned so results can be reproduced.
+ */
+export interface ScanResult {
+  owner: string;
+  repo: string;
+  /** Branch, tag or SHA the scan was requested for. */
+  ref: string;
+  /** Commit SHA `ref` resolved to when the scan started. */
+  commitSha: string;
+  mode: NonNullable<ScanOptions["mode"]>;
+  /** Pull request that was scanned, for pull-request scans. */
+  pullRequest?: number;
+  /** Scanner config that was applied, if the repository has one. */
+  config: ScanConfig | null;
+  startedAt: string;
+  finishedAt: string;
+  secrets: SecretMatch[];
+  /** Findings silenced by `secretscan:allow` markers or the allowlist. */
+  suppressed: SecretMatch[];
+  /** Outcome of the baseline comparison, if a baseline was applied. */
+  baseline: BaselineComparison | null;
+  /**
+   * Why the scan stopped before it was done, e.g. because it was
+   * cancelled or reached `maxFiles`. The findings of an incomplete scan
+   * cover only part of the repository; unset for complete scans.
+   */
+  incomplete?: string;
+}
+
 /**
  * Scan a GitHub repository for potential secrets (API keys, tokens, private keys, etc.).
  *
- * The scanner walks the repository tree up to 3 levels deep and scans up to a
- * maximum number of files (controlled by an internal `maxFiles` variable) to
- * avoid excessive API usage and rate limiting. It only examines files with
- * common text/code extensions and skips common build/vendor directories and
- * lock/config files.
+ * The requested `options.ref` (the default branch when omitted) is first
+ * resolved to a commit SHA and every subsequent request is pinned to that
+ * SHA, so the whole scan sees a single consistent snapshot. The scan itself
+ * depends on `options.mode`:
+ *
+ * - `"api"` lists the whole repository tree in one request (see
+ *   `getRepositoryFiles`) and then fetches and scans the eligible files,
+ *   `options.concurrency` at a time.
+ * - `"archive"` hands the scan over to `scanRepositoryArchive`, which
+ *   downloads the repository tarball once.
+ * - `"history"` walks the commit history (see `scanRepositoryHistory`).
+ * - `"pull-request"` scans the lines added by the diff of
+ *   `options.pullRequest` at its head commit, file by file like a commit
+ *   (see `scanCommit`). Findings are reported at their line in the head
+ *   commit, where review comments can be placed.
  *
- * For each line that matches one of the regexes in `SECRET_PATTERNS`, a
- * SecretMatch is added to the returned array. Each match includes the file
- * path, 1-based line number, a truncated preview of the line (first 100
- * characters), and the detected secret `type` (the key in `SECRET_PATTERNS`).
+ * Unless `options.config` is given, the scanner first reads the repository's
+ * `.secretscan.yml` at the scanned commit (for pull requests, at the head
+ * of their base branch, so a pull request cannot exclude, allowlist or
+ * baseline its own secrets) and applies its include/exclude
+ * globs, disabled patterns, custom rules, severity overrides and allowlist.
+ * Findings silenced by the allowlist or an inline `secretscan:allow` marker
+ * are returned in `suppressed` instead of `secrets` and are not verified.
+ * Gitleaks and detect-secrets rule sets listed in the config, or passed in
+ * `options.rulesets`, are merged into it. The applied config is returned
+ * with the result.
+ *
+ * With `options.verify` the findings are then checked against their
+ * providers on the server and marked `verified-live`, `invalid` or
+ * `unknown`.
+ *
+ * Every finding is given a `fingerprint`. Unless `options.baseline` is
+ * given, `.secretscan-baseline.json` is read from the commit the config is
+ * read from, and
+ * when a baseline applies each finding is marked `new` or `existing` and the
+ * baseline entries no longer found are returned in `baseline.resolved`.
+ *
+ * Only files with common text/code extensions are examined; common
+ * build/vendor directories and lock/config files are skipped. How much of the
+ * tree is scanned is controlled by `options`: the number of files, the
+ * directory depth and the maximum file size are all configurable and, apart
+ * from the file size, unlimited by default.
+ *
+ * For each line that matches one of the regexes in `SECRET_PATTERNS` (see
+ * `scanContent`), a SecretMatch is added to the result. Each match includes
+ * the file path, 1-based line number, a truncated preview of the line (first
+ * 100 characters), the detected secret `type` (the key in `SECRET_PATTERNS`)
+ * and the `commitSha` it was found in. Snapshot findings are ordered by
+ * path and line, history findings by commit, newest first.
+ *
+ * Progress is reported to `onProgress` as `ScanEvent`s: counters of the
+ * files discovered, scanned, skipped and failed, findings so far, bytes read
+ * and API requests made, plus an event per scanned or failed file and per
+ * finding (see `createScanProgress`). The `/api/scan` route streams these
+ * events to the browser, see `streamRepositoryScan`.
+ *
+ * `options.pause` holds the scan between files (commits for history scans)
+ * and `options.signal` cancels it: the scanner stops fetching, skips
+ * verification and the baseline comparison, and returns what it found so
+ * far in a result marked `incomplete`.
  *
  * Note: the function logs non-fatal scanning errors and will continue scanning
- * other files if an individual file fails to load. However, directory-level
- * errors are re-thrown so callers can decide how to handle critical failures.
+ * other files if an individual file fails to load. However, errors resolving
+ * the ref or listing the repository tree are re-thrown so callers can decide
+ * how to handle critical failures.
  *
  * @example
- * const matches = await scanRepositoryForSecrets('owner', 'repo', (msg) => console.log(msg));
+ * const result = await scanRepositoryForSecrets('owner', 'repo', (event) => console.log(event), { ref: 'v1.2.0' });
+ * console.log(result.commitSha, result.secrets.length);
  *
  * @param {string} owner - GitHub repository owner (user or org).
  * @param {string} repo - Repository name.
- * @param {(message: string) => void} [onProgress] - Optional callback invoked
- *   with progress messages (directory/file being scanned). Useful for UI
- *   progress updates or logging.
- * @returns {Promise<SecretMatch[]>} Promise that resolves to an array of
- *   SecretMatch objects describing the detected secrets. Each object has the
- *   shape: { file: string, line: number, content: string, type: string }.
- * @throws Will re-throw directory-level errors so callers can handle critical
- *   failures (e.g. permission or network errors). Individual file read errors
- *   are logged and do not stop the overall scan.
+ * @param {(event: ScanEvent) => void} [onProgress] - Optional callback
+ *   invoked with every progress event. Useful for UI progress updates or
+ *   logging.
+ * @param {ScanOptions} [options={}] - Optional ref, scan mode and limits.
+ * @returns {Promise<ScanResult>} Promise that resolves to the scan result,
+ *   including the resolved commit SHA and the detected secrets.
+ * @throws Will re-throw ref resolution, config and tree listing errors so callers can
+ *   handle critical failures (e.g. permission or network errors). Individual
+ *   file read errors are logged and do not stop the overall scan.
  */
 export async function scanRepositoryForSecrets(
   owner: string,
   repo: string,
-  onProgress?: (message: string) => void
-): Promise<
-  {
-    file: string;
-    line: number;
-    content: string;
-    type: string;
-    name: string;
-    description: string;
-    severity: "low" | "medium" | "high" | "critical";
-  }[]
-> {
-  const secrets: any[] = [];
-  const scannedFiles = new Set<string>();
-  const maxFiles = 100;
-
-  async function scanDirectory(path = "", depth = 0) {
-    if (depth > 3 || scannedFiles.size >= maxFiles) return;
-
-    const SKIP_DIRS = [
-      ".git",
-      "node_modules",
-      ".venv",
-      "venv",
-      "dist",
-      "build",
-      ".next",
-    ];
-    const SKIP_FILES = [
-      "package-lock.json",
-      "yarn.lock",
-      "pnpm-lock.yaml",
-      ".DS_Store",
-      "package.json",
-    ];
-    try {
-      onProgress?.(`Scanning directory: ${path || "root"}`);
-      const files = await getRepositoryFiles(owner, repo, path);
-
-      for (const file of files) {
-        if (scannedFiles.size >= maxFiles) break;
-        if (file.type === "dir" && SKIP_DIRS.includes(file.name)) continue;
-        if (file.type === "file" && SKIP_FILES.includes(file.name)) continue;
-
-        if (file.type === "file") {
-          const textExtensions = [
-            ".js",
-            ".ts",
-            ".tsx",
-            ".jsx",
-            ".py",
-            ".java",
-            ".go",
-            ".rb",
-            ".php",
-            ".env",
-            ".yml",
-            ".yaml",
-            ".json",
-            ".xml",
-            ".sh",
-            ".bash",
-            ".sql",
-            ".properties",
-            ".conf",
-            ".config",
-            ".txt",
-            ".md",
-            ".dockerfile",
-          ];
-
-          const hasTextExtension = textExtensions.some((ext) =>
-            file.name.toLowerCase().endsWith(ext)
+  onProgress?: (event: ScanEvent) => void,
+  options: ScanOptions = {}
+): Promise<ScanResult> {
+  assertRepositoryName(owner, repo);
+  const { mode, verify, concurrency, maxDepth, maxFileSize } = {
+    ...DEFAULT_SCAN_OPTIONS,
+    ...options,
+  };
+  let { ref } = { ...DEFAULT_SCAN_OPTIONS, ...options };
+  const startedAt = new Date().toISOString();
+  const progress = createScanProgress(onProgress);
+  const cancelled = () => options.signal?.aborted ?? false;
+
+  let commitSha: string;
+  // Where the config, its rule sets and the baseline are read from.
+  let trustedSha: string;
+  let pullRequest: PullRequestDetails | null = null;
+  if (mode === "pull-request") {
+    if (!options.pullRequest) {
+      throw new Error("A pull request number is required");
+    }
+    progress.status(`Fetching pull request #${options.pullRequest}...`);
+    pullRequest = await getPullRequest(owner, repo, options.pullRequest);
+    progress.apiCalls(1 + Math.ceil(pullRequest.files.length / 100));
+    // The head branch may live in a fork; this ref is in the repository.
+    ref = `refs/pull/${pullRequest.number}/head`;
+    commitSha = pullRequest.headSha;
+    trustedSha = pullRequest.baseSha;
+  } else {
+    progress.status(`Resolving ${ref}...`);
+    commitSha = await resolveCommitSha(owner, repo, ref);
+    trustedSha = commitSha;
+    progress.apiCalls();
+  }
+
+  let config = options.config;
+  if (config === undefined) {
+    progress.status("Looking for a scanner config...");
+    const file = await getScanConfigFile(owner, repo, trustedSha);
+    progress.apiCalls(
+      file ? SCAN_CONFIG_FILES.indexOf(file.path) + 1 : SCAN_CONFIG_FILES.length
+    );
+    config = file ? parseScanConfig(file.content, file.path) : null;
+  }
+
+  const rulesets = [...(options.rulesets ?? [])];
+  for (const { format, path } of config?.rulesets ?? []) {
+    progress.status(`Importing rules from ${path}...`);
+    const content = await getRepositoryTextFile(owner, repo, path, trustedSha);
+    progress.apiCalls();
+    if (content === null) {
+      throw new Error(`Rule set ${path} listed in ${config?.source} not found`);
+    }
+    rulesets.push({ format, source: path, content });
+  }
+  if (rulesets.length > 0) config = applyRuleSets(config, rulesets);
+  const pinned = {
+    ...options,
+    ref: commitSha,
+    config,
+    concurrency: Math.min(concurrency, MAX_CONCURRENCY),
+  };
+
+  let secrets: SecretMatch[];
+  if (cancelled()) {
+    secrets = [];
+  } else if (mode === "archive") {
+    progress.status("Downloading repository archive...");
+    secrets = await scanRepositoryArchive(
+      owner,
+      repo,
+      commitSha,
+      pinned,
+      progress
+    );
+  } else if (mode === "history") {
+    secrets = await scanRepositoryHistory(owner, repo, progress, pinned);
+  } else if (pullRequest) {
+    progress.status(`Scanning pull request #${pullRequest.number}...`);
+    secrets = scanCommit(
+      {
+        sha: commitSha,
+        author: pullRequest.author,
+        date: pullRequest.updatedAt,
+        message: pullRequest.title,
+        parents: 1,
+        files: pullRequest.files,
+      },
+      { maxDepth, maxFileSize },
+      pinned,
+      progress
+    );
+  } else {
+    secrets = await scanRepositoryFiles(owner, repo, progress, pinned);
+  }
+
+  // Files are scanned in parallel; list snapshot findings by path and line.
+  // History findings keep the order of the commits.
+  if (mode !== "history") {
+    secrets.sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.line - b.line ||
+        (a.column ?? 0) - (b.column ?? 0)
+    );
+  }
+
+  const suppressed = secrets.filter((secret) => secret.suppressed);
+  secrets = secrets.filter((secret) => !secret.suppressed);
+
+  if (verify && secrets.length > 0 && !cancelled()) {
+    progress.status("Verifying secrets with their providers...");
+    secrets = await verifySecretMatches(secrets);
+  }
+
+  const identify = (matches: SecretMatch[]) =>
+    Promise.all(
+      matches.map(async (secret) => ({
+        ...secret,
+        commitSha: secret.commitSha ?? commitSha,
+        fingerprint: await fingerprintSecret(secret, `${owner}/${repo}`),
+      }))
+    );
+  secrets = await identify(secrets);
+
+  let baseline = cancelled() ? null : options.baseline;
+  if (baseline === undefined) {
+    progress.status("Looking for a baseline...");
+    const content = await getRepositoryTextFile(
+      owner,
+      repo,
+      BASELINE_FILE,
+      trustedSha
+    );
+    progress.apiCalls();
+    baseline = content === null ? null : parseBaseline(content, BASELINE_FILE);
+  }
+  let comparison: BaselineComparison | null = null;
+  if (baseline && !cancelled()) {
+    ({ secrets, comparison } = compareWithBaseline(secrets, baseline));
+  }
+
+  // Files left out by `maxFiles` were never looked at.
+  const unscanned = progress.progress.skipReasons["file limit reached"] ?? 0;
+
+  return {
+    owner,
+    repo,
+    ref,
+    commitSha,
+    mode,
+    ...(pullRequest && { pullRequest: pullRequest.number }),
+    config,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    secrets,
+    suppressed: await identify(suppressed),
+    baseline: comparison,
+    ...(cancelled()
+      ? { incomplete: "The scan was cancelled" }
+      : unscanned > 0 && {
+          incomplete: `The file limit was reached, ${unscanned} file(s) were not scanned`,
+        }),
+  };
+}
+
+/**
+ * Run a scan on the server through the `/api/scan` route and follow its
+ * progress.
+ *
+ * The route runs `scanRepositoryForSecrets` and streams its events back as
+ * newline-delimited JSON. Every event but the last is passed to `onEvent`,
+ * starting with the `started` event whose `scanId` `controlScan` takes to
+ * pause, resume or cancel the scan. The final `result` event resolves the
+ * promise and an `error` event rejects it.
+ *
+ * @example
+ * const result = await streamRepositoryScan('owner', 'repo', (event) => {
+ *   if (event.type === 'progress') console.log(event.progress.filesScanned);
+ * }, { mode: 'archive' });
+ *
+ * @param {string} owner - GitHub repository owner (user or org).
+ * @param {string} repo - Repository name.
+ * @param {(event: ScanEvent) => void} onEvent - Receives the progress,
+ *   file and finding events.
+ * @param {ScanOptions} [options={}] - Optional ref, scan mode and limits.
+ * @returns {Promise<ScanResult>} Resolves with the scan result.
+ * @throws {GitHubAPIError|Error} Throws a `GitHubAPIError` when the route
+ *   rejects the request, or an `Error` with the message of a failed scan.
+ */
+export async function streamRepositoryScan(
+  owner: string,
+  repo: string,
+  onEvent: (event: ScanEvent) => void,
+  options: ScanOptions = {}
+): Promise<ScanResult> {
+  const response = await fetch("/api/scan", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ owner, repo, options }),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new GitHubAPIError(
+      response.status,
+      errorData.error || "Failed to start the scan"
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const lines = (buffered + value).split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: ScanEvent = JSON.parse(line);
+      if (event.type === "result") return event.result;
+      if (event.type === "error") throw new Error(event.message);
+      onEvent(event);
+    }
+  }
+
+  throw new Error("The scan ended without a result");
+}
+
+/**
+ * Wait while the scan is paused. Returns `false` once the scan has been
+ * cancelled, so the caller can stop and keep what it found so far.
+ */
+async function checkpoint(
+  options: ScanOptions,
+  progress: ScanProgressTracker
+): Promise<boolean> {
+  const { signal, pause } = options;
+  if (pause?.paused && !signal?.aborted) {
+    const message = progress.progress.message;
+    progress.status("Paused");
+    await pause.wait(signal);
+    progress.status(message);
+  }
+  return !signal?.aborted;
+}
+
+/**
+ * Snapshot scan that fetches and scans every eligible file of the tree at
+ * `options.ref`, `options.concurrency` files at a time.
+ */
+async function scanRepositoryFiles(
+  owner: string,
+  repo: string,
+  progress: ScanProgressTracker,
+  options: ScanOptions
+): Promise<SecretMatch[]> {
+  const { ref, maxFiles, maxDepth, maxFileSize, concurrency } = {
+    ...DEFAULT_SCAN_OPTIONS,
+    ...options,
+  };
+
+  let files: GitHubFile[];
+  try {
+    progress.status("Listing repository files...");
+    files = await getRepositoryFiles(owner, repo, ref, options.signal);
+    progress.apiCalls();
+  } catch (error) {
+    if (options.signal?.aborted) return [];
+    if (process.env.NODE_ENV === "development") {
+      console.error(`[v0] Error listing files for ${owner}/${repo}:`, error);
+    }
+    throw error;
+  }
+
+  // Apply the filters up front so the number of files to scan is known.
+  const eligible: GitHubFile[] = [];
+  for (const file of files) {
+    const reason =
+      eligible.length >= maxFiles
+        ? "file limit reached"
+        : getSkipReason(
+            file.path,
+            file.size,
+            { maxDepth, maxFileSize },
+            options.config
           );
-          if (!hasTextExtension) continue;
-
-          scannedFiles.add(file.path);
-          onProgress?.(`Scanning file: ${file.name}`);
-
-          try {
-            if (file.download_url) {
-              const content = await getFileContent(file.download_url);
-              const lines = content.split("\n");
-              lines.forEach((line, lineIndex) => {
-                SECRET_PATTERNS.forEach((pattern) => {
-                  if (pattern.regex.test(line)) {
-                    secrets.push({
-                      file: file.path,
-                      line: lineIndex + 1,
-                      content: line.substring(0, 100),
-                      type: pattern.id,
-                      name: pattern.name,
-                      description: pattern.description,
-                      severity: pattern.severity,
-                    });
-                    if (pattern.regex.global) pattern.regex.lastIndex = 0;
-                  }
-                });
-              });
-            }
-          } catch (error) {
-            if (process.env.NODE_ENV === "development") {
-              console.error(`[v0] Error scanning file ${file.path}:`, error);
-            }
-          }
-        } else if (file.type === "dir" && depth < 3) {
-          await scanDirectory(file.path, depth + 1);
+    if (reason) progress.skipped(reason);
+    else eligible.push(file);
+  }
+  progress.discovered(files.length);
+
+  const matches = await mapWithConcurrency(
+    eligible,
+    concurrency,
+    async (file): Promise<SecretMatch[]> => {
+      if (!(await checkpoint(options, progress))) return [];
+      progress.status(`Scanning file: ${file.path}`);
+
+      try {
+        if (!file.download_url) throw new Error("No download URL");
+        const content = await getFileContent(file.download_url, options.signal);
+        const found = scanContent(file.path, content, options);
+        progress.scanned(file.path, file.size ?? content.length, found);
+        return found;
+      } catch (error) {
+        if (options.signal?.aborted) return [];
+        if (process.env.NODE_ENV === "development") {
+          console.error(`[v0] Error scanning file ${file.path}:`, error);
         }
+        progress.failed(file.path, error);
+        return [];
       }
-    } catch (error) {
-      if (process.env.NODE_ENV === "development") {
-        console.error(`[v0] Error scanning directory ${path}:`, error);
+    }
+  );
+
+  return matches.flat();
+}
+
+/**
+ * Scan the commit history of a repository for secrets, including secrets
+ * that were committed and later deleted.
+ *
+ * Commits are walked newest first from `options.ref`, optionally
+ * bounded by `options.since`, `options.until` and `options.maxCommits`, or
+ * taken from `options.commits`. For each non-merge commit the added lines of
+ * every changed file are scanned with `scanCommit`, using the same file
+ * filters as a snapshot scan. Every finding records the commit SHA, author
+ * and date that introduced it.
+ *
+ * Once the walk is done, the files that produced findings are fetched at
+ * `options.ref` (HEAD of the scanned branch) to determine whether each
+ * secret is still present (`presentAtHead`). Files that no longer exist there
+ * are reported as not present; when their content cannot be fetched
+ * `presentAtHead` is left undefined.
+ *
+ * The walk waits while `options.pause` is paused and stops at the next
+ * commit once `options.signal` aborts, returning the findings so far.
+ *
+ * Up to `options.concurrency` commits are fetched at a time; findings keep
+ * the order of the commits. Costs one API request per commit plus one per
+ * page of 100 commits, so long histories should be bounded.
+ *
+ * @example
+ * const progress = createScanProgress(console.log);
+ * const matches = await scanRepositoryHistory('owner', 'repo', progress, { maxCommits: 50 });
+ * const leaked = matches.filter((m) => !m.presentAtHead);
+ *
+ * @param {string} owner - GitHub repository owner (user or org).
+ * @param {string} repo - Repository name.
+ * @param {ScanProgressTracker} [progress] - Tracker the walk reports to.
+ * @param {ScanOptions} [options={}] - History bounds and file limits.
+ * @returns {Promise<SecretMatch[]>} Findings, newest commit first.
+ * @throws Will re-throw errors listing commits. Errors fetching a single
+ *   commit are logged and that commit is skipped.
+ */
+export async function scanRepositoryHistory(
+  owner: string,
+  repo: string,
+  progress: ScanProgressTracker = createScanProgress(),
+  options: ScanOptions = {}
+): Promise<SecretMatch[]> {
+  const { ref, maxDepth, maxFileSize, since, until, maxCommits, concurrency } =
+    {
+      ...DEFAULT_SCAN_OPTIONS,
+      ...options,
+    };
+
+  let commits: { sha: string; parents?: number }[];
+  if (options.commits) {
+    commits = options.commits.map((sha) => ({ sha }));
+  } else {
+    progress.status("Listing commits...");
+    commits = await getCommits(owner, repo, {
+      ref,
+      since: since || undefined,
+      until: until || undefined,
+      maxCommits,
+    });
+    progress.apiCalls(Math.floor(commits.length / 100) + 1);
+  }
+  progress.commits(commits.length);
+
+  const perCommit = await mapWithConcurrency(
+    commits,
+    concurrency,
+    async (summary, index): Promise<SecretMatch[]> => {
+      if (!(await checkpoint(options, progress))) return [];
+      if ((summary.parents ?? 1) > 1) {
+        progress.commits();
+        return [];
       }
-      throw error;
+      progress.status(
+        `Scanning commit ${index + 1}/${commits.length}: ${summary.sha.slice(
+          0,
+          7
+        )}`
+      );
+
+      let found: SecretMatch[] = [];
+      try {
+        const commit = await getCommit(owner, repo, summary.sha);
+        progress.apiCalls();
+        // Given commits are only known to be merges once fetched.
+        if (commit.parents <= 1) {
+          found = scanCommit(
+            commit,
+            { maxDepth, maxFileSize },
+            options,
+            progress
+          );
+        }
+      } catch (error) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(`[v0] Error scanning commit ${summary.sha}:`, error);
+        }
+        progress.failed(`commit ${summary.sha.slice(0, 7)}`, error);
+      }
+      progress.commits();
+      return found;
     }
+  );
+  const secrets = perCommit.flat();
+
+  if (secrets.length === 0 || options.signal?.aborted) return secrets;
+
+  progress.status("Checking which secrets are still present at HEAD...");
+  let headFiles: Map<string, GitHubFile>;
+  try {
+    headFiles = new Map(
+      (await getRepositoryFiles(owner, repo, ref, options.signal)).map(
+        (file) => [file.path, file]
+      )
+    );
+  } catch (error) {
+    if (options.signal?.aborted) return secrets;
+    throw error;
+  }
+  progress.apiCalls();
+  const paths = [...new Set(secrets.map((secret) => secret.file))];
+  const contents = await mapWithConcurrency(
+    paths,
+    concurrency,
+    async (path): Promise<string | undefined> => {
+      const file = headFiles.get(path);
+      if (!file?.download_url) return "";
+      try {
+        return await getFileContent(file.download_url, options.signal);
+      } catch {
+        return undefined;
+      }
+    }
+  );
+  const headContent = new Map(
+    paths.map((path, index) => [path, contents[index]])
+  );
+
+  for (const secret of secrets) {
+    const content = headContent.get(secret.file);
+    secret.presentAtHead =
+      content === undefined
+        ? undefined
+        : content.includes(secret.match ?? secret.content);
   }
 
-  await scanDirectory();
   return secrets;
 }
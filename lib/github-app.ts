@@ -0,0 +1,206 @@
+import { sign } from "node:crypto";
+import { GitHubAPIError, isRepositoryName } from "@/lib/github-api";
+
+/** GitHub App credentials, read from `GITHUB_APP_ID` and `GITHUB_APP_PRIVATE_KEY`. */
+interface AppCredentials {
+  appId: string;
+  privateKey: string;
+}
+
+/** An installation access token and when it expires (ms). */
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+/** Tokens are renewed this long before they expire. */
+const TOKEN_RENEWAL_MS = 5 * 60 * 1000;
+
+/** How long a repository's installation (or lack of one) is remembered. */
+const INSTALLATION_CACHE_MS = 10 * 60 * 1000;
+
+// Kept on globalThis so route handlers and server actions share the cache.
+const cache = globalThis as typeof globalThis & {
+  installationTokens?: Map<number, InstallationToken>;
+  repositoryInstallations?: Map<string, { id: number | null; at: number }>;
+  appLogin?: string;
+};
+const installationTokens = (cache.installationTokens ??= new Map());
+const repositoryInstallations = (cache.repositoryInstallations ??= new Map());
+
+function appCredentials(): AppCredentials | null {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
+  if (!appId || !privateKey) return null;
+  // Env files usually hold the PEM on one line with escaped newlines.
+  return { appId, privateKey: privateKey.replace(/\\n/g, "\n") };
+}
+
+/**
+ * Whether a GitHub App is configured, see `GITHUB_APP_ID` and
+ * `GITHUB_APP_PRIVATE_KEY`.
+ *
+ * @returns {boolean} `true` when both are set.
+ */
+export function isGitHubAppConfigured(): boolean {
+  return appCredentials() !== null;
+}
+
+/**
+ * Create the JSON Web Token a GitHub App authenticates as itself with:
+ * signed with the app's private key (RS256), issued by the app id and
+ * valid for 10 minutes, backdated by a minute against clock drift.
+ *
+ * @example
+ * const jwt = createAppJwt('123456', privateKeyPem);
+ *
+ * @param {string} appId - The app id.
+ * @param {string} privateKey - The app's private key, PEM encoded.
+ * @param {number} [now=Date.now()] - The current time (ms).
+ * @returns {string} The token.
+ */
+export function createAppJwt(
+  appId: string,
+  privateKey: string,
+  now = Date.now()
+): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  const encode = (part: object) =>
+    Buffer.from(JSON.stringify(part)).toString("base64url");
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iat: issuedAt,
+    exp: issuedAt + 10 * 60,
+    iss: appId,
+  })}`;
+  const signature = sign(
+    "RSA-SHA256",
+    Buffer.from(unsigned),
+    privateKey
+  ).toString("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+async function appRequest(
+  credentials: AppCredentials,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  return fetch(`https://api.github.com${path}`, {
+    ...init,
+    headers: {
+      Accept: "application/vnd.github+json",
+      Authorization: `Bearer ${createAppJwt(
+        credentials.appId,
+        credentials.privateKey
+      )}`,
+    },
+  });
+}
+
+/**
+ * The login of the GitHub App's bot user, `<slug>[bot]`: what installation
+ * tokens act as, for instance as the author of the comments they post.
+ *
+ * @returns {Promise<string | null>} The login, or `null` when no app is
+ *   configured.
+ * @throws {GitHubAPIError} Throws when GitHub rejects the app's token.
+ */
+export async function getAppLogin(): Promise<string | null> {
+  const credentials = appCredentials();
+  if (!credentials) return null;
+  if (cache.appLogin) return cache.appLogin;
+
+  const response = await appRequest(credentials, "/app");
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      response.status,
+      "Failed to look up the GitHub App"
+    );
+  }
+  const { slug }: { slug: string } = await response.json();
+  return (cache.appLogin = `${slug}[bot]`);
+}
+
+/**
+ * Look up the installation of the GitHub App on a repository.
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @returns {Promise<number | null>} The installation id, or `null` when no
+ *   app is configured or it is not installed on the repository.
+ * @throws {GitHubAPIError} Throws when GitHub rejects the app's token.
+ */
+export async function getRepositoryInstallation(
+  owner: string,
+  repo: string
+): Promise<number | null> {
+  const credentials = appCredentials();
+  if (!credentials || !isRepositoryName(owner, repo)) return null;
+
+  const key = `${owner}/${repo}`.toLowerCase();
+  const cached = repositoryInstallations.get(key);
+  if (cached && Date.now() - cached.at < INSTALLATION_CACHE_MS) {
+    return cached.id;
+  }
+
+  const response = await appRequest(
+    credentials,
+    `/repos/${owner}/${repo}/installation`
+  );
+  if (!response.ok && response.status !== 404) {
+    throw new GitHubAPIError(
+      response.status,
+      "Failed to look up the GitHub App installation"
+    );
+  }
+  const id = response.ok ? ((await response.json()).id as number) : null;
+  repositoryInstallations.set(key, { id, at: Date.now() });
+  return id;
+}
+
+/**
+ * Get an access token for an installation of the GitHub App. Tokens are
+ * valid for an hour and reused until shortly before they expire.
+ *
+ * Requests made with the token act as the app and count against the
+ * installation's rate limit rather than a user's.
+ *
+ * @example
+ * const token = await getInstallationToken(installationId);
+ *
+ * @param {number} installationId - The installation id.
+ * @returns {Promise<string>} The token.
+ * @throws {GitHubAPIError} Throws when no app is configured or GitHub
+ *   refuses to issue a token.
+ */
+export async function getInstallationToken(
+  installationId: number
+): Promise<string> {
+  const credentials = appCredentials();
+  if (!credentials) {
+    throw new GitHubAPIError(0, "No GitHub App is configured");
+  }
+
+  const cached = installationTokens.get(installationId);
+  if (cached && cached.expiresAt - TOKEN_RENEWAL_MS > Date.now()) {
+    return cached.token;
+  }
+
+  const response = await appRequest(
+    credentials,
+    `/app/installations/${installationId}/access_tokens`,
+    { method: "POST" }
+  );
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      response.status,
+      "Failed to create a GitHub App installation token"
+    );
+  }
+  const data: { token: string; expires_at: string } = await response.json();
+  installationTokens.set(installationId, {
+    token: data.token,
+    expiresAt: Date.parse(data.expires_at),
+  });
+  return data.token;
+}
@@ -0,0 +1,256 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { auth } from "@/auth";
+import {
+  getInstallationToken,
+  getRepositoryInstallation,
+} from "@/lib/github-app";
+import { isRepositoryName } from "@/lib/github-api";
+
+/** A token to access a repository with, and who requests made with it act as. */
+export interface GitHubCredentials {
+  /** `undefined` for anonymous requests. */
+  token?: string;
+  /** Recorded with scans, e.g. "GitHub App installation 123". */
+  actor: string;
+  /** Set for the GitHub App's installation tokens. */
+  installationId?: number;
+}
+
+// The token of work running outside a request, see `withGitHubToken`.
+// Held in an object so that "no token" can be told apart from "not set".
+const scoped = new AsyncLocalStorage<{ token?: string }>();
+
+/**
+ * Run `task` with a given GitHub token instead of the signed-in user's.
+ *
+ * Server-side jobs such as scheduled rescans run without a request, so
+ * there is no session to take a token from. Every GitHub request made
+ * within `task`, including by the server actions it calls, uses `token`;
+ * without one the requests are anonymous.
+ *
+ * @example
+ * const result = await withGitHubToken(process.env.GITHUB_SCAN_TOKEN, () =>
+ *   scanRepositoryForSecrets('owner', 'repo')
+ * );
+ *
+ * @param {string | undefined} token - Token to use, or `undefined` for
+ *   anonymous requests.
+ * @param {() => Promise<T>} task - The work to run.
+ * @returns {Promise<T>} The result of `task`.
+ */
+export function withGitHubToken<T>(
+  token: string | undefined,
+  task: () => Promise<T>
+): Promise<T> {
+  return scoped.run({ token }, task);
+}
+
+/**
+ * The GitHub token to make requests with: the one given to
+ * `withGitHubToken`, or else the signed-in user's access token.
+ *
+ * @returns {Promise<string | undefined>} The token, `undefined` for
+ *   anonymous requests.
+ */
+export async function getGitHubToken(): Promise<string | undefined> {
+  const store = scoped.getStore();
+  if (store) return store.token;
+  const session = await auth();
+  return session?.accessToken;
+}
+
+/**
+ * Use the GitHub App's installation token for a repository, if the app is
+ * configured and installed on it.
+ */
+async function installationCredentials(
+  owner: string,
+  repo: string
+): Promise<GitHubCredentials | null> {
+  try {
+    const installationId = await getRepositoryInstallation(owner, repo);
+    if (installationId === null) return null;
+    return {
+      token: await getInstallationToken(installationId),
+      actor: `GitHub App installation ${installationId}`,
+      installationId,
+    };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error authenticating as the GitHub App:", error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Credentials for work the server does on its own, such as scheduled
+ * rescans and push webhooks: the GitHub App's installation token when the
+ * app is installed on the repository, otherwise `GITHUB_SCAN_TOKEN`, and
+ * anonymous access when neither is available.
+ *
+ * @example
+ * const credentials = await getServerCredentials('owner', 'repo');
+ * await withGitHubToken(credentials.token, () => scan());
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @returns {Promise<GitHubCredentials>} The credentials.
+ */
+export async function getServerCredentials(
+  owner: string,
+  repo: string
+): Promise<GitHubCredentials> {
+  const installation = await installationCredentials(owner, repo);
+  if (installation) return installation;
+  const token = process.env.GITHUB_SCAN_TOKEN;
+  return { token, actor: token ? "server token" : "anonymous" };
+}
+
+/**
+ * What a user's token, or anonymous access, may do on a repository:
+ * `"write"` with push or admin permission, `"read"` when it can only see
+ * it, and `null` when the repository cannot be read at all.
+ */
+async function repositoryAccess(
+  owner: string,
+  repo: string,
+  userToken: string | undefined
+): Promise<"read" | "write" | null> {
+  if (!isRepositoryName(owner, repo)) return null;
+  const response = await fetch(
+    `https://api.github.com/repos/${owner}/${repo}`,
+    {
+      headers: {
+        Accept: "application/vnd.github+json",
+        ...(userToken ? { Authorization: `Bearer ${userToken}` } : {}),
+      },
+    }
+  ).catch(() => null);
+  if (!response?.ok) return null;
+
+  // `permissions` is only returned for authenticated requests.
+  const data: { permissions?: { push?: boolean; admin?: boolean } } =
+    await response.json();
+  return data.permissions?.push || data.permissions?.admin ? "write" : "read";
+}
+
+/**
+ * Whether a user's token, or anonymous access, can read a repository.
+ *
+ * @example
+ * if (!(await canReadRepository('owner', 'repo', session.accessToken))) return;
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string | undefined} userToken - The user's access token,
+ *   `undefined` when signed out.
+ * @returns {Promise<boolean>} `true` when the repository can be read.
+ */
+export async function canReadRepository(
+  owner: string,
+  repo: string,
+  userToken: string | undefined
+): Promise<boolean> {
+  return (await repositoryAccess(owner, repo, userToken)) !== null;
+}
+
+/**
+ * Whether a GitHub user can still read a repository, for work done on
+ * their behalf without a session, such as scheduled rescans.
+ *
+ * Public repositories are readable by anyone. For others the user's login
+ * is looked up by account id and their permission on the repository is
+ * asked for with the server's `token`, which needs access to the
+ * repository's collaborators; any failure counts as no access.
+ *
+ * @example
+ * const credentials = await getServerCredentials('owner', 'repo');
+ * await canUserReadRepository('owner', 'repo', entry.userId, credentials.token);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string} userId - The user's GitHub account id, as in sessions.
+ * @param {string | undefined} token - Server token to ask GitHub with.
+ * @returns {Promise<boolean>} `true` when the user can read the repository.
+ */
+export async function canUserReadRepository(
+  owner: string,
+  repo: string,
+  userId: string,
+  token: string | undefined
+): Promise<boolean> {
+  if (await canReadRepository(owner, repo, undefined)) return true;
+  if (!token || !/^\d+$/.test(userId) || !isRepositoryName(owner, repo)) {
+    return false;
+  }
+
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${token}`,
+  };
+  try {
+    const user = await fetch(`https://api.github.com/user/${userId}`, {
+      headers,
+    });
+    if (!user.ok) return false;
+    const { login }: { login: string } = await user.json();
+
+    const response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/collaborators/${login}/permission`,
+      { headers }
+    );
+    if (!response.ok) return false;
+    const { permission }: { permission: string } = await response.json();
+    return permission !== "none";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Credentials for work done on behalf of a user: the GitHub App's
+ * installation token when the app is installed on the repository and the
+ * signed-in user has the `access` the work needs, otherwise the user's own
+ * token, or none when signed out.
+ *
+ * Checking access first keeps the installation token from opening up
+ * private repositories the user could not see anyway, and from letting
+ * users who can only read a repository write to it as the app: pass
+ * `"write"` for actions that open issues, comment or publish checks.
+ * Requests made with it count against the installation's rate limit
+ * instead of the user's.
+ *
+ * @example
+ * const session = await auth();
+ * const credentials = await getUserCredentials('owner', 'repo', session?.accessToken, 'write');
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {string | undefined} userToken - The user's access token,
+ *   `undefined` when signed out.
+ * @param {"read" | "write"} [access="read"] - The access the user needs to
+ *   the repository to act as the app: read it, or push to it.
+ * @returns {Promise<GitHubCredentials>} The credentials.
+ */
+export async function getUserCredentials(
+  owner: string,
+  repo: string,
+  userToken: string | undefined,
+  access: "read" | "write" = "read"
+): Promise<GitHubCredentials> {
+  const user = {
+    token: userToken,
+    actor: userToken ? "signed-in user" : "anonymous",
+  };
+  // Signed-out visitors never spend the installation's rate limit.
+  if (!userToken) return user;
+  const installation = await installationCredentials(owner, repo);
+  if (!installation) return user;
+
+  const granted = await repositoryAccess(owner, repo, userToken);
+  if (granted === "write" || (granted === "read" && access === "read")) {
+    return installation;
+  }
+  return user;
+}
@@ -0,0 +1,305 @@
+import PDFDocument from "pdfkit";
+import {
+  REMEDIATION_RESOURCES,
+  REMEDIATION_STEPS,
+} from "@/constants/remediation";
+import type { ReportFinding, ScanReport } from "@/lib/report";
+
+const MARGIN = 50;
+
+const SEVERITY_COLORS: Record<ReportFinding["severity"], string> = {
+  critical: "#991b1b",
+  high: "#dc2626",
+  medium: "#d97706",
+  low: "#2563eb",
+};
+
+/**
+ * Prepare text for the PDF standard fonts, which only cover the WinAnsi
+ * character set: Markdown backticks are dropped and other characters are
+ * replaced with `?`.
+ */
+function plain(text: unknown): string {
+  return String(text ?? "")
+    .replace(/`/g, "")
+    .replace(
+      /[^\x20-\x7e\u00a0-\u00ff\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026]/g,
+      "?"
+    );
+}
+
+type Column = { header: string; width: number; font?: string };
+
+/**
+ * Draw a table, starting a new page (and repeating the header row) whenever
+ * the next row does not fit.
+ */
+function table(doc: PDFKit.PDFDocument, columns: Column[], rows: string[][]) {
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+  const padding = 4;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    const heights = cells.map((cell, index) =>
+      doc
+        .font(header ? "Helvetica-Bold" : columns[index].font ?? "Helvetica")
+        .heightOfString(cell, { width: columns[index].width - padding * 2 })
+    );
+    const height = Math.max(...heights) + padding * 2;
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+      if (!header)
+        drawRow(
+          columns.map((column) => column.header),
+          true
+        );
+    }
+
+    const top = doc.y;
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const { width, font } = columns[index];
+      if (header) doc.rect(x, top, width, height).fill("#f1f5f9");
+      doc
+        .rect(x, top, width, height)
+        .lineWidth(0.5)
+        .stroke("#cbd5e1")
+        .fillColor("#0f172a")
+        .font(header ? "Helvetica-Bold" : font ?? "Helvetica")
+        .text(cell, x + padding, top + padding, {
+          width: width - padding * 2,
+        });
+      x += width;
+    });
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  doc.fontSize(8);
+  drawRow(
+    columns.map((column) => column.header),
+    true
+  );
+  rows.forEach((row) => drawRow(row.map(plain), false));
+  doc.moveDown();
+}
+
+function heading(doc: PDFKit.PDFDocument, text: string) {
+  doc
+    .moveDown()
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor("#0f172a")
+    .text(plain(text), MARGIN)
+    .moveDown(0.5);
+}
+
+/**
+ * Render a scan report as a printable PDF audit report.
+ *
+ * The document has a cover page with the scan details and a sign-off block,
+ * an executive summary by severity, the findings grouped by type (as in the
+ * results view), and the remediation steps also used in GitHub issues. It
+ * only uses the PDF standard fonts, so no network access or font files are
+ * needed, and it only sees the already masked `ScanReport`.
+ *
+ * @example
+ * const pdf = await renderPdfReport(buildReport(result));
+ *
+ * @param {ScanReport} report - The report, see `buildReport`.
+ * @returns {Promise<Buffer>} The PDF file.
+ */
+export function renderPdfReport(report: ScanReport): Promise<Buffer> {
+  const { repository, scan, config, summary } = report;
+  const name = `${repository.owner}/${repository.repo}`;
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Secret scan audit report: ${name}`,
+      Subject: `Commit ${repository.commitSha}`,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const width = doc.page.width - MARGIN * 2;
+
+  // Cover page
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(26)
+    .fillColor("#0f172a")
+    .text("Secret Scan Audit Report", MARGIN, 160, { width })
+    .moveDown(0.5)
+    .font("Helvetica")
+    .fontSize(16)
+    .text(plain(name))
+    .moveDown(2)
+    .fontSize(10);
+
+  const details: [string, string][] = [
+    ["Ref", repository.ref],
+    ["Commit", repository.commitSha],
+    ["Scan mode", scan.mode],
+    ["Scan started", scan.startedAt],
+    ["Scan finished", scan.finishedAt],
+    ["Config", config ? config.source : "Default rules"],
+    ["Report generated", report.generatedAt],
+  ];
+  if (scan.incomplete) {
+    details.push(["Incomplete", `${scan.incomplete}; results are partial`]);
+  }
+  for (const [label, value] of details) {
+    doc
+      .font("Helvetica-Bold")
+      .text(`${label}: `, { continued: true })
+      .font("Helvetica")
+      .text(plain(value));
+  }
+
+  doc.y = doc.page.height - 230;
+  doc.font("Helvetica-Bold").fontSize(12).text("Sign-off").moveDown();
+  doc.font("Helvetica").fontSize(10);
+  for (const label of ["Reviewed by", "Role", "Date", "Signature"]) {
+    const y = doc.y + 14;
+    doc.text(label, MARGIN, doc.y);
+    doc
+      .moveTo(MARGIN + 90, y)
+      .lineTo(MARGIN + width, y)
+      .lineWidth(0.5)
+      .stroke("#64748b");
+    doc.moveDown(1.5);
+  }
+
+  // Executive summary
+  doc.addPage();
+  heading(doc, "Executive summary");
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .text(
+      summary.total === 0
+        ? "No potential secrets were detected."
+        : `${summary.total} potential secret(s) were detected. Secret values are masked throughout this report.`,
+      { width }
+    )
+    .moveDown();
+  table(
+    doc,
+    [
+      { header: "Severity", width: width / 2 },
+      { header: "Findings", width: width / 2 },
+    ],
+    [
+      ...(["critical", "high", "medium", "low"] as const).map((severity) => [
+        severity,
+        String(summary.bySeverity[severity]),
+      ]),
+      ["Total", String(summary.total)],
+      ["Suppressed", String(summary.suppressed)],
+      ...(summary.baseline
+        ? [
+            [
+              `New since ${summary.baseline.source}`,
+              String(summary.baseline.new),
+            ],
+            ["Known from baseline", String(summary.baseline.existing)],
+            ["Resolved since baseline", String(summary.baseline.resolved)],
+          ]
+        : []),
+    ]
+  );
+
+  // Findings, grouped by type as in the results view
+  const findingsByType = report.findings.reduce((acc, finding) => {
+    if (!acc[finding.type]) acc[finding.type] = [];
+    acc[finding.type].push(finding);
+    return acc;
+  }, {} as Record<string, ReportFinding[]>);
+
+  if (report.findings.length > 0) heading(doc, "Findings");
+  for (const [type, findings] of Object.entries(findingsByType)) {
+    if (doc.y > doc.page.height - 150) doc.addPage();
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(11)
+      .fillColor(SEVERITY_COLORS[findings[0].severity])
+      .text(plain(`${findings[0].name} (${type})`), MARGIN)
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor("#475569")
+      .text(`${findings.length} match(es)`)
+      .fillColor("#0f172a")
+      .moveDown(0.3);
+    table(
+      doc,
+      [
+        { header: "Severity", width: 55 },
+        { header: "Location", width: width * 0.3 },
+        { header: "Secret", width: width * 0.22, font: "Courier" },
+        { header: "Preview", width: width * 0.48 - 55, font: "Courier" },
+      ],
+      findings.map((finding) => [
+        finding.severity,
+        `${finding.file}:${finding.line}${
+          finding.endLine && finding.endLine !== finding.line
+            ? `-${finding.endLine}`
+            : ""
+        }${finding.commitSha ? ` @ ${finding.commitSha.slice(0, 7)}` : ""}`,
+        finding.secret,
+        finding.preview,
+      ])
+    );
+  }
+
+  // Remediation
+  heading(doc, "Recommended actions");
+  doc.fontSize(10);
+  REMEDIATION_STEPS.forEach(({ action, detail }, index) => {
+    doc
+      .font("Helvetica-Bold")
+      .text(`${index + 1}. ${plain(action)} `, MARGIN, doc.y, {
+        continued: true,
+        width,
+      })
+      .font("Helvetica")
+      .text(plain(detail));
+  });
+  doc.moveDown().font("Helvetica-Bold").text("Resources");
+  doc.font("Helvetica");
+  for (const { title, url } of REMEDIATION_RESOURCES) {
+    doc.text(`${title}: ${url}`, { width });
+  }
+
+  // Page footers
+  const pages = doc.bufferedPageRange();
+  for (let index = 0; index < pages.count; index++) {
+    doc.switchToPage(pages.start + index);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#64748b")
+      .text(
+        plain(
+          `${name} @ ${repository.commitSha.slice(0, 7)} - page ${
+            index + 1
+          } of ${pages.count}`
+        ),
+        MARGIN,
+        doc.page.height - 30,
+        { width, align: "center" }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,39 @@
+/**
+ * Run `task` over `items` with at most `concurrency` tasks in flight: a
+ * bounded `Promise.all(items.map(task))`.
+ *
+ * A fixed number of workers take the next item as soon as they are free, so
+ * tasks finish in any order, but the results keep the order of `items`. The
+ * first task to throw rejects the whole run; tasks already started are not
+ * awaited.
+ *
+ * @example
+ * const contents = await mapWithConcurrency(files, 4, (file) => getFileContent(file.download_url));
+ *
+ * @param {T[]} items - Inputs.
+ * @param {number} concurrency - Maximum number of tasks running at once.
+ * @param {(item: T, index: number) => Promise<R>} task - Work per item.
+ * @returns {Promise<R[]>} The results, in the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Math.max(
+    1,
+    Math.min(Math.floor(concurrency) || 1, items.length)
+  );
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,234 @@
+import { fetchWithRetry } from "@/lib/fetch_with_retries";
+import { getAppLogin } from "@/lib/github-app";
+import {
+  assertRepositoryName,
+  GitHubAPIError,
+  type SecretMatch,
+} from "@/lib/github-api";
+import { maskSecret } from "@/lib/report";
+
+/**
+ * Hidden marker that starts every review comment of the scanner and ties it
+ * to a finding by fingerprint, so a rescan can find its earlier comments.
+ */
+const FINDING_MARKER = /^<!-- secretscan:finding ([0-9a-f]{64}) -->/;
+
+/** What a review run did to the pull request, see `reviewPullRequest`. */
+export interface PullRequestReviewOutcome {
+  /** The review holding the new comments, if there were any. */
+  reviewUrl?: string;
+  /** Comments added for findings without one. */
+  created: number;
+  /** Earlier comments rewritten for findings that are still present. */
+  updated: number;
+  /** Earlier comments marked resolved because their finding is gone. */
+  resolved: number;
+}
+
+interface ReviewComment {
+  id: number;
+  body: string;
+  user: { login: string } | null;
+}
+
+/**
+ * The review comment for a finding: the pattern's name, severity and
+ * description and the matched value, masked with `maskSecret`.
+ *
+ * @example
+ * const body = reviewCommentBody(secret, result.commitSha);
+ *
+ * @param {SecretMatch} secret - The finding, with `fingerprint` set.
+ * @param {string} commitSha - The scanned commit.
+ * @returns {string} The comment, in Markdown.
+ */
+export function reviewCommentBody(
+  secret: SecretMatch,
+  commitSha: string
+): string {
+  const value = (secret.match ?? secret.content).replace(/\s+/g, " ");
+  const severity = secret.severity.toUpperCase();
+  const commit = commitSha.slice(0, 7);
+  return [
+    `<!-- secretscan:finding ${secret.fingerprint} -->`,
+    `**Potential secret: ${secret.name}** (severity: **${severity}**)`,
+    "",
+    secret.description,
+    "",
+    `Matched \`${maskSecret(value)}\` (\`${secret.type}\`) in ${commit}.`,
+    ...(secret.explanation ? ["", secret.explanation] : []),
+    "",
+    "Remove the secret from this change and rotate it: it is already in the branch history. If it is not a secret, add a `secretscan:allow` comment on the line.",
+  ].join("\n");
+}
+
+/**
+ * The login comments posted with `token` are authored by: the GitHub App's
+ * bot for installation tokens (`ghs_...`), which cannot ask `GET /user`,
+ * and otherwise the token's user.
+ */
+async function commenterLogin(
+  token: string,
+  headers: Record<string, string>
+): Promise<string> {
+  if (token.startsWith("ghs_")) {
+    const login = await getAppLogin();
+    if (login) return login;
+  }
+  const response = await fetchWithRetry("https://api.github.com/user", {
+    headers,
+  });
+  const user: { login: string } = await response.json();
+  return user.login;
+}
+
+/** The comment that replaces one whose finding is no longer detected. */
+function resolvedCommentBody(fingerprint: string, commitSha: string): string {
+  return `<!-- secretscan:finding ${fingerprint} -->
+~~Potential secret~~ No longer detected as of ${commitSha.slice(0, 7)}.`;
+}
+
+/**
+ * Review a pull request with one inline comment per finding, on the lines
+ * the finding spans.
+ *
+ * Comments are identified by the fingerprint of their finding (see
+ * `fingerprintSecret`), kept in a hidden marker, and by their author, the
+ * user or GitHub App bot the `token` acts as, so running the review
+ * again after new commits does not add duplicates: findings that already
+ * have a comment get it updated in place, new findings are commented on in
+ * a single review, and comments whose finding is gone are marked resolved.
+ * Nothing is posted when there is nothing new to comment on.
+ *
+ * Findings a baseline already accepted are left alone. The findings must
+ * come from a pull-request scan (`mode: "pull-request"`) so that their
+ * lines are part of the diff; GitHub rejects comments on other lines.
+ *
+ * @example
+ * const outcome = await reviewPullRequest('owner', 'repo', 42, result.commitSha, result.secrets, token);
+ *
+ * @param {string} owner - Repository owner (user or organization).
+ * @param {string} repo - Repository name.
+ * @param {number} pullNumber - Pull request number.
+ * @param {string} commitSha - The scanned head commit of the pull request.
+ * @param {SecretMatch[]} secrets - The findings of the scan.
+ * @param {string} token - Token with write access to pull requests.
+ * @returns {Promise<PullRequestReviewOutcome>} What was changed.
+ * @throws {GitHubAPIError} Throws when GitHub responds with an error.
+ */
+export async function reviewPullRequest(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  commitSha: string,
+  secrets: SecretMatch[],
+  token: string
+): Promise<PullRequestReviewOutcome> {
+  assertRepositoryName(owner, repo);
+  const api = `https://api.github.com/repos/${owner}/${repo}/pulls`;
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${token}`,
+  };
+
+  // One comment per fingerprint: the first occurrence of a value stands in
+  // for its repeats.
+  const findings = new Map<string, SecretMatch>();
+  for (const secret of secrets) {
+    if (secret.baseline === "existing" || !secret.fingerprint) continue;
+    if (!findings.has(secret.fingerprint)) {
+      findings.set(secret.fingerprint, secret);
+    }
+  }
+
+  try {
+    // Only the scanner's own comments are taken over: anyone can post a
+    // comment that starts with the marker, and editing it would fail.
+    const login = await commenterLogin(token, headers);
+    const existing = new Map<string, ReviewComment>();
+    for (let page = 1; ; page++) {
+      const response = await fetchWithRetry(
+        `${api}/${pullNumber}/comments?per_page=100&page=${page}`,
+        { headers }
+      );
+      const comments: ReviewComment[] = await response.json();
+      for (const comment of comments) {
+        if (comment.user?.login !== login) continue;
+        const fingerprint = comment.body.match(FINDING_MARKER)?.[1];
+        if (fingerprint && !existing.has(fingerprint)) {
+          existing.set(fingerprint, comment);
+        }
+      }
+      if (comments.length < 100) break;
+    }
+
+    const outcome: PullRequestReviewOutcome = {
+      created: 0,
+      updated: 0,
+      resolved: 0,
+    };
+    const update = async (comment: ReviewComment, body: string) => {
+      if (comment.body === body) return false;
+      await fetchWithRetry(`${api}/comments/${comment.id}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ body }),
+      });
+      return true;
+    };
+
+    for (const [fingerprint, comment] of existing) {
+      const secret = findings.get(fingerprint);
+      if (secret) {
+        if (await update(comment, reviewCommentBody(secret, commitSha))) {
+          outcome.updated++;
+        }
+      } else if (
+        await update(comment, resolvedCommentBody(fingerprint, commitSha))
+      ) {
+        outcome.resolved++;
+      }
+    }
+
+    const comments = [...findings]
+      .filter(([fingerprint]) => !existing.has(fingerprint))
+      .map(([, secret]) => ({
+        path: secret.file,
+        side: "RIGHT",
+        line: secret.endLine ?? secret.line,
+        ...(secret.endLine &&
+          secret.endLine !== secret.line && {
+            start_line: secret.line,
+            start_side: "RIGHT",
+          }),
+        body: reviewCommentBody(secret, commitSha),
+      }));
+    if (comments.length > 0) {
+      const response = await fetchWithRetry(`${api}/${pullNumber}/reviews`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          commit_id: commitSha,
+          event: "COMMENT",
+          body: `Secret scan of ${commitSha.slice(0, 7)}: ${
+            comments.length
+          } new potential secret(s) in this pull request.`,
+          comments,
+        }),
+      });
+      const review: { html_url: string } = await response.json();
+      outcome.reviewUrl = review.html_url;
+      outcome.created = comments.length;
+    }
+    return outcome;
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error reviewing pull request:", error);
+    }
+    throw new GitHubAPIError(
+      0,
+      `Failed to review pull request #${pullNumber}`,
+      false
+    );
+  }
+}
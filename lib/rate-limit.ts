@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+
+export interface RateLimitInfo {
+  remaining: number;
+  limit: number;
+  /** Unix timestamp (ms) when the limit resets. */
+  reset: number;
+}
+
+/**
+ * Below this share of the quota, requests are spread evenly over the time
+ * left until the limit resets instead of being sent as fast as possible.
+ */
+const LOW_QUOTA_SHARE = 0.2;
+
+/** Longest wait for the rate limit before a request fails instead. */
+const MAX_WAIT_MS = 60_000;
+
+interface RateLimitState {
+  info: RateLimitInfo | null;
+  /** Until when a secondary rate limit asked for requests to stop (ms). */
+  retryAfter: number;
+  /** Earliest time the next paced request may be sent (ms). */
+  nextRequestAt: number;
+}
+
+/** How often states whose limits have all run out are evicted (ms). */
+const EVICT_INTERVAL_MS = 60_000;
+
+// One state per token: every token has its own quota.
+const states = new Map<string, RateLimitState>();
+let lastEviction = 0;
+
+/** Whether nothing recorded in a state still holds requests back. */
+function isExpired(state: RateLimitState, now: number): boolean {
+  return (
+    now >= (state.info?.reset ?? 0) &&
+    now >= state.retryAfter &&
+    now >= state.nextRequestAt
+  );
+}
+
+function stateFor(key: string): RateLimitState {
+  const now = Date.now();
+  if (now - lastEviction >= EVICT_INTERVAL_MS) {
+    lastEviction = now;
+    for (const [other, state] of states) {
+      if (isExpired(state, now)) states.delete(other);
+    }
+  }
+
+  let state = states.get(key);
+  if (!state) {
+    state = { info: null, retryAfter: 0, nextRequestAt: 0 };
+    states.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * The key the rate limit of a request is tracked under: a SHA-256 hash of
+ * its `Authorization` header, so tokens are not kept in memory, or `null`
+ * for requests outside the REST API (such as raw file downloads), which do
+ * not count against the quota.
+ *
+ * @param {string} url - Request URL.
+ * @param {RequestInit} options - Request options.
+ * @returns {string | null} The key, `""` for anonymous API requests.
+ */
+export function rateLimitKey(url: string, options: RequestInit): string | null {
+  if (new URL(url).hostname !== "api.github.com") return null;
+  const authorization = new Headers(options.headers).get("authorization");
+  if (!authorization) return "";
+  return createHash("sha256").update(authorization).digest("hex");
+}
+
+/**
+ * Record the rate-limit headers of a GitHub API response.
+ *
+ * Besides the `x-ratelimit-*` headers of the primary limit, a 403 or 429
+ * response with a `Retry-After` header (a secondary rate limit) or with no
+ * requests remaining holds back every further request for that token until
+ * the indicated time.
+ *
+ * @param {string} key - See `rateLimitKey`.
+ * @param {Response} response - The response.
+ */
+export function recordRateLimit(key: string, response: Response): void {
+  const state = stateFor(key);
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const limit = response.headers.get("x-ratelimit-limit");
+  const reset = response.headers.get("x-ratelimit-reset");
+
+  if (remaining && limit && reset) {
+    state.info = {
+      remaining: Number.parseInt(remaining, 10),
+      limit: Number.parseInt(limit, 10),
+      reset: Number.parseInt(reset, 10) * 1000,
+    };
+  }
+
+  if (response.status === 403 || response.status === 429) {
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter) {
+      state.retryAfter = Date.now() + Number.parseInt(retryAfter, 10) * 1000;
+    } else if (state.info?.remaining === 0) {
+      state.retryAfter = state.info.reset;
+    } else if (response.status === 429) {
+      state.retryAfter = Date.now() + MAX_WAIT_MS;
+    }
+  }
+}
+
+/**
+ * Wait until a request may be sent under the rate limit of `key`.
+ *
+ * Returns right away while plenty of the quota is left. Once less than a
+ * fifth of it remains, requests are paced so the rest lasts until the
+ * reset; requests running in parallel share the pace. After a secondary
+ * rate limit the wait lasts until its `Retry-After` time.
+ *
+ * @example
+ * await waitForRateLimit(key, options.signal);
+ *
+ * @param {string} key - See `rateLimitKey`.
+ * @param {AbortSignal | null} [signal] - Ends the wait early.
+ * @throws {Error} Throws when the wait would exceed a minute, e.g. because
+ *   the quota is used up.
+ */
+export async function waitForRateLimit(
+  key: string,
+  signal?: AbortSignal | null
+): Promise<void> {
+  const state = stateFor(key);
+  const now = Date.now();
+  let wait = Math.max(0, state.retryAfter - now);
+
+  const { info } = state;
+  if (info && now < info.reset) {
+    if (info.remaining <= 0) {
+      wait = Math.max(wait, info.reset - now);
+    } else if (info.remaining < info.limit * LOW_QUOTA_SHARE) {
+      const slot = Math.max(now, state.nextRequestAt);
+      state.nextRequestAt = slot + (info.reset - now) / info.remaining;
+      wait = Math.max(wait, slot - now);
+    }
+  }
+
+  if (wait === 0) return;
+  if (wait > MAX_WAIT_MS) {
+    throw new Error(
+      `GitHub API rate limit exceeded. Please wait ${Math.ceil(
+        wait / 1000
+      )} seconds before trying again.`
+    );
+  }
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, wait);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
@@ -0,0 +1,80 @@
+import { RE2JS } from "re2js";
+import type { PatternRegExp } from "@/constants/pattern";
+
+const FLAGS: Record<string, number> = {
+  i: RE2JS.CASE_INSENSITIVE,
+  m: RE2JS.MULTILINE,
+  s: RE2JS.DOTALL,
+};
+
+/**
+ * Compile the regex of a custom or imported rule with RE2, whose matching
+ * time grows linearly with the input whatever the pattern. Rules come from
+ * repository configs and rule sets and run on the server, including for
+ * webhook and scheduled scans; a backtracking pattern such as `(a+)+$` in
+ * a JavaScript `RegExp` could stall the whole process.
+ *
+ * The syntax is that of RE2 (and Go, as used by Gitleaks): JavaScript's
+ * without lookarounds and backreferences. The result supports the parts of
+ * `RegExp` the scanner uses, with the same `index` and `lastIndex`
+ * semantics.
+ *
+ * @example
+ * const regex = compileRuleRegex('acme_[a-z0-9]{32}', 'gi');
+ * regex.exec('token = acme_...');
+ *
+ * @param {string} source - The pattern.
+ * @param {string} [flags=""] - Any of `g`, `i`, `m`, `s` and `u`.
+ * @returns {PatternRegExp} The compiled pattern.
+ * @throws {Error} Throws when RE2 does not support the pattern or a flag.
+ */
+export function compileRuleRegex(source: string, flags = ""): PatternRegExp {
+  let options = 0;
+  for (const flag of flags) {
+    if (flag === "g" || flag === "u") continue;
+    if (!FLAGS[flag]) throw new Error(`unsupported regex flag "${flag}"`);
+    options |= FLAGS[flag];
+  }
+
+  let pattern: RE2JS;
+  try {
+    pattern = RE2JS.compile(source, options);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : String(error));
+  }
+  const groupNames = Object.entries(pattern.namedGroups());
+
+  const regex: PatternRegExp = {
+    source,
+    flags,
+    global: flags.includes("g"),
+    lastIndex: 0,
+    exec(input: string) {
+      const start = regex.global ? regex.lastIndex : 0;
+      const matcher = pattern.matcher(input);
+      if (start > input.length || !matcher.find(start)) {
+        regex.lastIndex = 0;
+        return null;
+      }
+
+      // Unmatched groups are `undefined`, as in `RegExp` results.
+      const found = Array.from(
+        { length: matcher.groupCount() + 1 },
+        (_, group) => matcher.group(group) ?? undefined
+      ) as RegExpExecArray;
+      found.index = matcher.start();
+      found.input = input;
+      if (groupNames.length > 0) {
+        found.groups = Object.fromEntries(
+          groupNames.map(([name, group]) => [name, found[group]])
+        ) as Record<string, string>;
+      }
+      if (regex.global) regex.lastIndex = matcher.end();
+      return found;
+    },
+    test(input: string) {
+      return regex.exec(input) !== null;
+    },
+  };
+  return regex;
+}
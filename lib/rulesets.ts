@@ -0,0 +1,458 @@
+import { parse, TomlError } from "smol-toml";
+import { compileRuleRegex } from "@/lib/rule-regex";
+import { ENTROPY_PATTERN, SECRET_PATTERNS } from "@/constants/pattern";
+import {
+  createScanConfig,
+  type CustomRule,
+  type RuleSetFormat,
+  type ScanConfig,
+} from "@/lib/scan-config";
+
+/** The text of a rule set file, read from the repository or uploaded. */
+export interface RuleSetSource {
+  format: RuleSetFormat;
+  /** File name, used in messages and the UI. */
+  source: string;
+  content: string;
+}
+
+/** Settings extracted from a rule set, ready to merge into a `ScanConfig`. */
+export interface ImportedRuleSet {
+  rules: CustomRule[];
+  disabledPatterns: string[];
+  entropy?: ScanConfig["entropy"];
+  warnings: string[];
+}
+
+type ConvertedRegex = { regex: string; flags?: string };
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  digit: "0-9",
+  lower: "a-z",
+  upper: "A-Z",
+  space: "\\s",
+  word: "\\w",
+  xdigit: "0-9A-Fa-f",
+  punct: "!-\\/:-@\\[-`{-~",
+};
+
+/**
+ * Translate a Go (RE2) regular expression, as written in Gitleaks configs,
+ * into the source and flags of a rule regex (see `compileRuleRegex`).
+ *
+ * Flag groups such as `(?i)` become regex flags, which apply to the whole
+ * expression, so a `(?i)` or `(?i:...)` in the middle of an expression makes
+ * all of it case-insensitive; that can only widen what it matches.
+ *
+ * @param {string} source - The RE2 expression.
+ * @returns {ConvertedRegex} The source and flags.
+ * @throws {Error} Throws when RE2 cannot compile the result.
+ */
+export function convertGoRegex(source: string): ConvertedRegex {
+  const flags = new Set<string>();
+
+  const regex = source
+    .replace(/\(\?([imsU]+)(\)|:)/g, (_, groupFlags: string, end: string) => {
+      for (const flag of groupFlags) {
+        if (flag === "U")
+          throw new Error("ungreedy mode (?U) is not supported");
+        flags.add(flag);
+      }
+      return end === ":" ? "(?:" : "";
+    })
+    .replace(/\(\?P</g, "(?<")
+    .replace(/(?<!\\)\\z/g, "$")
+    .replace(/(?<!\\)\\A/g, "^")
+    .replace(
+      /\[:(\w+):\]/g,
+      (posix, name: string) => POSIX_CLASSES[name] ?? posix
+    );
+
+  const converted = { regex, flags: [...flags].join("") || undefined };
+  compileRuleRegex(converted.regex, converted.flags);
+  return converted;
+}
+
+function tables(value: unknown): Record<string, unknown>[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (item): item is Record<string, unknown> =>
+      typeof item === "object" && item !== null
+  );
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+/**
+ * Merge Gitleaks `[allowlist]` tables (or `[[allowlists]]` arrays) into one
+ * allowlist. Gitleaks tests `regexes` against the secret by default; other
+ * targets and `AND` conditions are approximated and reported as warnings.
+ */
+function convertAllowlists(
+  value: unknown,
+  label: string,
+  warnings: string[]
+): NonNullable<CustomRule["allowlist"]> | undefined {
+  const allowlists = tables(value);
+  if (allowlists.length === 0) return undefined;
+
+  const compile = (sources: string[], key: string) =>
+    sources.flatMap((source) => {
+      try {
+        return [convertGoRegex(source)];
+      } catch (error) {
+        warnings.push(
+          `${label}: skipped allowlist ${key} "${source}": ${
+            (error as Error).message
+          }`
+        );
+        return [];
+      }
+    });
+
+  const regexes: ConvertedRegex[] = [];
+  const paths: ConvertedRegex[] = [];
+  const stopwords: string[] = [];
+  for (const allowlist of allowlists) {
+    if (
+      allowlist.regexTarget !== undefined &&
+      allowlist.regexTarget !== "secret"
+    ) {
+      warnings.push(
+        `${label}: allowlist regexTarget "${allowlist.regexTarget}" is applied to the secret`
+      );
+    }
+    if (allowlist.condition === "AND") {
+      warnings.push(`${label}: allowlist condition AND is treated as OR`);
+    }
+    regexes.push(...compile(strings(allowlist.regexes), "regex"));
+    paths.push(...compile(strings(allowlist.paths), "path"));
+    stopwords.push(...strings(allowlist.stopwords));
+  }
+  return { regexes, paths, stopwords };
+}
+
+/**
+ * Convert a Gitleaks TOML config into custom rules.
+ *
+ * Each `[[rules]]` entry becomes a rule with the same `id`, its `keywords`,
+ * `secretGroup` and `entropy`, and its allowlists merged with the global
+ * `[allowlist]`. Gitleaks has no severities, so every rule is reported as
+ * `high`. Rules that match file paths only, or whose regex cannot be
+ * translated, are skipped with a warning.
+ *
+ * @example
+ * const { rules, warnings } = convertGitleaksRules(toml, '.gitleaks.toml');
+ *
+ * @param {string} text - Content of the TOML file.
+ * @param {string} source - File name, used in descriptions and messages.
+ * @returns {ImportedRuleSet} The converted rules and conversion warnings.
+ * @throws {Error} Throws with a message naming `source` when the TOML is
+ *   malformed or has no rules.
+ */
+export function convertGitleaksRules(
+  text: string,
+  source: string
+): ImportedRuleSet {
+  let raw: Record<string, unknown>;
+  try {
+    raw = parse(text);
+  } catch (error) {
+    // The parser's message quotes the offending line; only say where it is.
+    throw new Error(
+      error instanceof TomlError
+        ? `Invalid ${source}: malformed TOML at line ${error.line}, column ${error.column}`
+        : `Invalid ${source}: malformed TOML`
+    );
+  }
+
+  const warnings: string[] = [];
+  const extend = tables(raw.extend)[0];
+  if (extend?.useDefault === true || typeof extend?.path === "string") {
+    warnings.push(
+      `${source} extends another Gitleaks config, which is not imported; only its own rules are used`
+    );
+  }
+
+  const global = convertAllowlists(
+    raw.allowlists ?? raw.allowlist,
+    source,
+    warnings
+  );
+  const rules: CustomRule[] = [];
+
+  for (const [index, rule] of tables(raw.rules).entries()) {
+    const id = typeof rule.id === "string" ? rule.id : `rules[${index}]`;
+    if (typeof rule.regex !== "string") {
+      warnings.push(`${id}: rules without a regex are not supported`);
+      continue;
+    }
+    if (rule.path !== undefined) {
+      warnings.push(`${id}: the path filter is ignored`);
+    }
+
+    let regex: ConvertedRegex;
+    try {
+      regex = convertGoRegex(rule.regex);
+    } catch (error) {
+      warnings.push(`${id}: skipped, ${(error as Error).message}`);
+      continue;
+    }
+
+    const own = convertAllowlists(
+      rule.allowlists ?? rule.allowlist,
+      id,
+      warnings
+    );
+    const keywords = strings(rule.keywords).map((word) => word.toLowerCase());
+
+    rules.push({
+      id,
+      name: id,
+      regex: regex.regex,
+      flags: regex.flags,
+      description:
+        typeof rule.description === "string"
+          ? rule.description
+          : `Gitleaks rule from ${source}.`,
+      severity: "high",
+      keywords: keywords.length > 0 ? keywords : undefined,
+      secretGroup: typeof rule.secretGroup === "number" ? rule.secretGroup : 0,
+      entropy: typeof rule.entropy === "number" ? rule.entropy : undefined,
+      allowlist:
+        global || own
+          ? {
+              regexes: [...(global?.regexes ?? []), ...(own?.regexes ?? [])],
+              paths: [...(global?.paths ?? []), ...(own?.paths ?? [])],
+              stopwords: [
+                ...(global?.stopwords ?? []),
+                ...(own?.stopwords ?? []),
+              ],
+            }
+          : undefined,
+    });
+  }
+
+  if (rules.length === 0 && warnings.length === 0) {
+    throw new Error(`Invalid ${source}: no [[rules]] found`);
+  }
+  return { rules, disabledPatterns: [], warnings };
+}
+
+/**
+ * `SECRET_PATTERNS` ids covered by each detect-secrets plugin. Patterns not
+ * listed here have no detect-secrets counterpart and are always enabled.
+ */
+const DETECT_SECRETS_PLUGINS: Record<string, string[]> = {
+  AWSKeyDetector: ["aws_access_key", "aws_secret_key"],
+  AzureStorageKeyDetector: ["azure_storage_key"],
+  BasicAuthDetector: ["database_url"],
+  DiscordBotTokenDetector: ["discord_token"],
+  GitHubTokenDetector: ["github_pat"],
+  GitLabTokenDetector: ["gitlab_token"],
+  JwtTokenDetector: ["jwt_token"],
+  KeywordDetector: ["generic_keyword"],
+  PrivateKeyDetector: ["private_key", "private_key_header"],
+  SendGridDetector: ["sendgrid_api_key"],
+  SlackDetector: ["slack_token"],
+  SquareOAuthDetector: ["square_access_token"],
+  StripeDetector: ["stripe_secret_key"],
+  TelegramBotTokenDetector: ["telegram_bot_token"],
+  TwilioKeyDetector: ["twilio_api_key"],
+};
+
+/**
+ * Convert the plugin list of a detect-secrets baseline (`.secrets.baseline`)
+ * into scanner settings.
+ *
+ * The built-in patterns matching a plugin the baseline does not use are
+ * disabled, and the `limit` of the `Base64HighEntropyString` and
+ * `HexHighEntropyString` plugins become the entropy thresholds; without
+ * either plugin the entropy detector is turned off. Plugins without a
+ * counterpart are reported as warnings.
+ *
+ * @example
+ * const { disabledPatterns, entropy } = convertDetectSecretsBaseline(json, '.secrets.baseline');
+ *
+ * @param {string} text - Content of the baseline JSON file.
+ * @param {string} source - File name, used in messages.
+ * @returns {ImportedRuleSet} The settings and conversion warnings.
+ * @throws {Error} Throws with a message naming `source` when the JSON is
+ *   malformed or has no `plugins_used` list.
+ */
+export function convertDetectSecretsBaseline(
+  text: string,
+  source: string
+): ImportedRuleSet {
+  let raw;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    // The parser's message quotes the file; keep its content out of errors.
+    throw new Error(`Invalid ${source}: malformed JSON`);
+  }
+  if (!Array.isArray(raw?.plugins_used)) {
+    throw new Error(`Invalid ${source}: "plugins_used" must be a list`);
+  }
+  const plugins = tables(raw.plugins_used);
+
+  const warnings: string[] = [];
+  const enabled = new Set<string>();
+  const entropy: NonNullable<ScanConfig["entropy"]> = {
+    base64Threshold: Infinity,
+    hexThreshold: Infinity,
+  };
+  const limit = (plugin: Record<string, unknown>, fallback: number) =>
+    typeof plugin.limit === "number" ? plugin.limit : fallback;
+
+  for (const plugin of plugins) {
+    const name = String(plugin.name);
+    if (name === "Base64HighEntropyString") {
+      entropy.base64Threshold = limit(plugin, 4.5);
+    } else if (name === "HexHighEntropyString") {
+      entropy.hexThreshold = limit(plugin, 3);
+    } else if (DETECT_SECRETS_PLUGINS[name]) {
+      DETECT_SECRETS_PLUGINS[name].forEach((id) => enabled.add(id));
+    } else {
+      warnings.push(`${name}: no equivalent detector, ignored`);
+    }
+  }
+
+  const covered = Object.values(DETECT_SECRETS_PLUGINS).flat();
+  const disabledPatterns = SECRET_PATTERNS.map((pattern) => pattern.id).filter(
+    (id) => covered.includes(id) && !enabled.has(id)
+  );
+  const usesEntropy =
+    entropy.base64Threshold !== Infinity || entropy.hexThreshold !== Infinity;
+  if (!usesEntropy) disabledPatterns.push(ENTROPY_PATTERN.id);
+
+  return {
+    rules: [],
+    disabledPatterns,
+    entropy: usesEntropy ? entropy : undefined,
+    warnings,
+  };
+}
+
+/**
+ * Merge third-party rule sets into a scanner config.
+ *
+ * Imported rules are added after the config's own rules, so the config's
+ * `disabled_patterns` and `severity_overrides` apply to them as well. The
+ * original config is left untouched.
+ *
+ * @example
+ * const config = applyRuleSets(repoConfig, [{ format: 'gitleaks', source: 'gitleaks.toml', content }]);
+ *
+ * @param {ScanConfig | null} config - Repository config, if any.
+ * @param {RuleSetSource[]} sources - Rule set files to import.
+ * @returns {ScanConfig} A new config including the imported settings.
+ * @throws {Error} Throws when a rule set cannot be parsed.
+ */
+export function applyRuleSets(
+  config: ScanConfig | null,
+  sources: RuleSetSource[]
+): ScanConfig {
+  const merged = config
+    ? { ...config }
+    : createScanConfig(sources.map((ruleset) => ruleset.source).join(", "));
+
+  for (const ruleset of sources) {
+    const imported =
+      ruleset.format === "gitleaks"
+        ? convertGitleaksRules(ruleset.content, ruleset.source)
+        : convertDetectSecretsBaseline(ruleset.content, ruleset.source);
+
+    merged.rules = [...merged.rules, ...imported.rules];
+    merged.disabledPatterns = [
+      ...merged.disabledPatterns,
+      ...imported.disabledPatterns,
+    ];
+    if (imported.entropy) {
+      merged.entropy = { ...merged.entropy, ...imported.entropy };
+    }
+    merged.imports = [
+      ...merged.imports,
+      {
+        format: ruleset.format,
+        source: ruleset.source,
+        rules: imported.rules.length,
+        warnings: imported.warnings,
+      },
+    ];
+  }
+
+  return merged;
+}
+
+/** Most rule set files a single scan can upload. */
+export const MAX_UPLOADED_RULE_SETS = 5;
+
+/** Most rules, and longest regex source, uploaded rule sets may hold. */
+export const MAX_UPLOADED_RULES = 200;
+export const MAX_UPLOADED_REGEX_LENGTH = 500;
+
+/**
+ * Check rule set files uploaded with a scan request before their regexes
+ * are run on the server.
+ *
+ * Uploaded regexes run on the server's event loop, so their number and
+ * length are limited to keep a single request from tying it up: at most
+ * `MAX_UPLOADED_RULE_SETS` files, `MAX_UPLOADED_RULES` rules between them
+ * and `MAX_UPLOADED_REGEX_LENGTH` characters per regex, allowlist regexes
+ * included.
+ *
+ * @example
+ * const rulesets = checkUploadedRuleSets(options.rulesets);
+ *
+ * @param {unknown} sources - The rule sets as received.
+ * @returns {RuleSetSource[]} The rule sets, when within the limits.
+ * @throws {Error} Throws when they are malformed, cannot be parsed or
+ *   exceed a limit.
+ */
+export function checkUploadedRuleSets(sources: unknown): RuleSetSource[] {
+  if (sources === undefined) return [];
+  if (
+    !Array.isArray(sources) ||
+    !sources.every(
+      (source) =>
+        (source?.format === "gitleaks" ||
+          source?.format === "detect-secrets") &&
+        typeof source.source === "string" &&
+        typeof source.content === "string"
+    )
+  ) {
+    throw new Error("Malformed rule sets");
+  }
+  if (sources.length > MAX_UPLOADED_RULE_SETS) {
+    throw new Error(
+      `At most ${MAX_UPLOADED_RULE_SETS} rule sets can be uploaded`
+    );
+  }
+
+  const { rules } = applyRuleSets(null, sources);
+  if (rules.length > MAX_UPLOADED_RULES) {
+    throw new Error(
+      `Uploaded rule sets can hold at most ${MAX_UPLOADED_RULES} rules`
+    );
+  }
+  for (const rule of rules) {
+    const regexes = [
+      rule.regex,
+      ...(rule.allowlist?.regexes ?? []).map(({ regex }) => regex),
+      ...(rule.allowlist?.paths ?? []).map(({ regex }) => regex),
+    ];
+    if (regexes.some((regex) => regex.length > MAX_UPLOADED_REGEX_LENGTH)) {
+      throw new Error(
+        `${rule.id}: uploaded regexes can be at most ${MAX_UPLOADED_REGEX_LENGTH} characters long`
+      );
+    }
+  }
+  return sources;
+}
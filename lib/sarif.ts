@@ -0,0 +1,212 @@
+import { ENTROPY_PATTERN, SECRET_PATTERNS } from "@/constants/pattern";
+import type { ScanResult, SecretMatch } from "@/lib/github-api";
+
+type Severity = SecretMatch["severity"];
+
+/** Name the scanner reports itself as in SARIF logs. */
+export const SARIF_TOOL_NAME = "Repo Secret Scanner";
+
+/** Key of the scanner's fingerprint in `partialFingerprints`. */
+export const SARIF_FINGERPRINT_KEY = "secretscan/v1";
+
+const LEVELS: Record<Severity, "error" | "warning" | "note"> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+};
+
+/** GitHub code scanning ranks security alerts by this 0-10 score. */
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: "9.5",
+  high: "8.0",
+  medium: "5.5",
+  low: "2.0",
+};
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: "error" | "warning" | "note" };
+  properties: { tags: string[]; "security-severity": string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: "error" | "warning" | "note";
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; startColumn?: number; endLine?: number };
+    };
+  }[];
+  partialFingerprints: Record<string, string>;
+  baselineState?: "new" | "unchanged";
+  suppressions?: { kind: "inSource" | "external"; justification: string }[];
+  properties?: Record<string, string | boolean>;
+}
+
+/** The subset of the SARIF 2.1.0 log format the exporter writes. */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: { name: string; rules: SarifRule[] };
+    };
+    versionControlProvenance?: {
+      repositoryUri: string;
+      revisionId: string;
+      branch?: string;
+    }[];
+    results: SarifResult[];
+    invocations?: {
+      executionSuccessful: boolean;
+      toolExecutionNotifications?: {
+        level: "warning";
+        message: { text: string };
+      }[];
+    }[];
+  }[];
+}
+
+function toRule(pattern: {
+  id: string;
+  name: string;
+  description: string;
+  severity: Severity;
+}): SarifRule {
+  return {
+    id: pattern.id,
+    name: pattern.name,
+    shortDescription: { text: pattern.name },
+    fullDescription: { text: pattern.description },
+    defaultConfiguration: { level: LEVELS[pattern.severity] },
+    properties: {
+      tags: ["security", "secret"],
+      "security-severity": SECURITY_SEVERITY[pattern.severity],
+    },
+  };
+}
+
+/**
+ * Convert scan results into a SARIF 2.1.0 log, for GitHub code scanning and
+ * other SARIF viewers.
+ *
+ * Every entry of `SECRET_PATTERNS`, the entropy detector and any custom rule
+ * that produced a finding becomes a rule, with its severity mapped to a
+ * SARIF level and a `security-severity` score. Each finding becomes a result
+ * located by file, line and column and identified by its `fingerprint` in
+ * `partialFingerprints`. Suppressed findings are included with a SARIF
+ * suppression, and baseline comparisons map to `baselineState`. An
+ * incomplete scan is recorded as an unsuccessful invocation.
+ *
+ * The log never contains the matched secrets, only their location.
+ *
+ * @example
+ * const json = JSON.stringify(toSarif(result), null, 2);
+ *
+ * @param {ScanResult} scan - The scan to export. Only the repository, ref,
+ *   commit SHA and findings are used.
+ * @returns {SarifLog} The SARIF log.
+ */
+export function toSarif(
+  scan: Pick<ScanResult, "owner" | "repo" | "secrets"> &
+    Partial<Pick<ScanResult, "ref" | "commitSha" | "suppressed" | "incomplete">>
+): SarifLog {
+  const rules = [...SECRET_PATTERNS, ENTROPY_PATTERN].map(toRule);
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const toResult = (secret: SecretMatch): SarifResult => {
+    if (!ruleIndex.has(secret.type)) {
+      ruleIndex.set(secret.type, rules.length);
+      rules.push(toRule({ ...secret, id: secret.type }));
+    }
+
+    return {
+      ruleId: secret.type,
+      ruleIndex: ruleIndex.get(secret.type)!,
+      level: LEVELS[secret.severity],
+      message: {
+        text: `${secret.name} found in ${secret.file}. ${secret.description}`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: secret.file },
+            region: {
+              startLine: secret.line,
+              startColumn: secret.column,
+              endLine: secret.endLine,
+            },
+          },
+        },
+      ],
+      partialFingerprints: secret.fingerprint
+        ? { [SARIF_FINGERPRINT_KEY]: secret.fingerprint }
+        : {},
+      baselineState: secret.baseline
+        ? secret.baseline === "new"
+          ? "new"
+          : "unchanged"
+        : undefined,
+      suppressions: secret.suppressed
+        ? [
+            {
+              kind: secret.suppressed.startsWith("secretscan:allow")
+                ? "inSource"
+                : "external",
+              justification: secret.suppressed,
+            },
+          ]
+        : undefined,
+      properties: secret.commitSha
+        ? { commitSha: secret.commitSha }
+        : undefined,
+    };
+  };
+
+  const results = [...scan.secrets, ...(scan.suppressed ?? [])].map(toResult);
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: SARIF_TOOL_NAME,
+            rules,
+          },
+        },
+        versionControlProvenance: scan.commitSha
+          ? [
+              {
+                repositoryUri: `https://github.com/${scan.owner}/${scan.repo}`,
+                revisionId: scan.commitSha,
+                branch: scan.ref,
+              },
+            ]
+          : undefined,
+        results,
+        invocations: [
+          {
+            executionSuccessful: !scan.incomplete,
+            ...(scan.incomplete && {
+              toolExecutionNotifications: [
+                {
+                  level: "warning" as const,
+                  message: { text: scan.incomplete },
+                },
+              ],
+            }),
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Lets a running scan be paused between files, the way an `AbortSignal`
+ * lets it be cancelled.
+ */
+export interface PauseGate {
+  readonly paused: boolean;
+  pause(): void;
+  resume(): void;
+  /**
+   * Resolve once the gate is open: right away unless the scan is paused,
+   * otherwise on `resume` or when `signal` aborts.
+   */
+  wait(signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Create an open pause gate.
+ *
+ * @example
+ * const gate = createPauseGate();
+ * gate.pause();
+ * setTimeout(() => gate.resume(), 1000);
+ * await gate.wait(); // resolves after a second
+ *
+ * @returns {PauseGate} The gate.
+ */
+export function createPauseGate(): PauseGate {
+  let paused = false;
+  let waiting: (() => void)[] = [];
+
+  const release = () => {
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  return {
+    get paused() {
+      return paused;
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      release();
+    },
+    wait(signal) {
+      if (!paused || signal?.aborted) return Promise.resolve();
+      return new Promise((resolve) => {
+        waiting.push(resolve);
+        signal?.addEventListener("abort", () => resolve(), { once: true });
+      });
+    },
+  };
+}
+
+/** A scan started by the `/api/scan` route that can still be controlled. */
+export interface RunningScan {
+  id: string;
+  controller: AbortController;
+  pause: PauseGate;
+}
+
+// Kept on globalThis so the route and the server actions share one
+// registry even when the bundler gives each its own copy of this module.
+const registry = globalThis as typeof globalThis & {
+  runningScans?: Map<string, RunningScan>;
+};
+const runningScans = (registry.runningScans ??= new Map());
+
+/**
+ * Register a new scan so it can be paused, resumed or cancelled while it
+ * runs. Scans are only tracked in the memory of the server process that
+ * runs them, see `getRunningScan`.
+ *
+ * @returns {RunningScan} The scan, with a random id to hand to the client.
+ */
+export function registerScan(): RunningScan {
+  const scan: RunningScan = {
+    id: crypto.randomUUID(),
+    controller: new AbortController(),
+    pause: createPauseGate(),
+  };
+  runningScans.set(scan.id, scan);
+  return scan;
+}
+
+/**
+ * Look up a running scan.
+ *
+ * @param {string} id - Id returned by `registerScan`.
+ * @returns {RunningScan | undefined} The scan, unless it has finished.
+ */
+export function getRunningScan(id: string): RunningScan | undefined {
+  return runningScans.get(id);
+}
+
+/**
+ * Forget a scan once it has finished.
+ *
+ * @param {string} id - Id returned by `registerScan`.
+ */
+export function unregisterScan(id: string): void {
+  runningScans.delete(id);
+}
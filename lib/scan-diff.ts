@@ -0,0 +1,44 @@
+/** Findings of two scans matched by fingerprint. */
+export interface FindingDiff<T> {
+  /** Found by the later scan only. */
+  added: T[];
+  /** Found by the earlier scan only. */
+  resolved: T[];
+  /** Found by both scans, as reported by the later one. */
+  unchanged: T[];
+}
+
+/**
+ * Compare the findings of two scans of a repository.
+ *
+ * Findings are matched by their `fingerprint` (see `fingerprintSecret`),
+ * which leaves line numbers out, so a secret that merely moved because code
+ * above it changed is still reported as unchanged. Findings without a
+ * fingerprint never match and show up as added or resolved.
+ *
+ * Works on any finding shape with a fingerprint, such as `SecretMatch` or
+ * `ReportFinding`.
+ *
+ * @example
+ * const { added, resolved } = diffFindings(previous.secrets, latest.secrets);
+ *
+ * @param {T[]} base - Findings of the earlier scan.
+ * @param {T[]} head - Findings of the later scan.
+ * @returns {FindingDiff<T>} The findings, split by whether each scan found
+ *   them.
+ */
+export function diffFindings<T extends { fingerprint?: string }>(
+  base: T[],
+  head: T[]
+): FindingDiff<T> {
+  const before = new Set(base.map((finding) => finding.fingerprint));
+  const after = new Set(head.map((finding) => finding.fingerprint));
+  const matched = (finding: T, scan: Set<string | undefined>) =>
+    finding.fingerprint !== undefined && scan.has(finding.fingerprint);
+
+  return {
+    added: head.filter((finding) => !matched(finding, before)),
+    resolved: base.filter((finding) => !matched(finding, after)),
+    unchanged: head.filter((finding) => matched(finding, before)),
+  };
+}
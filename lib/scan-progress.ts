@@ -0,0 +1,143 @@
+import type { ScanResult, SecretMatch } from "@/lib/github-api";
+
+/** Running counters of a scan, sent with every progress event. */
+export interface ScanProgress {
+  /** What the scanner is doing, e.g. `Listing repository files...`. */
+  message: string;
+  /** Files found in the tree, or changed by the commits walked so far. */
+  filesDiscovered: number;
+  filesScanned: number;
+  /** Files left out by the scan filters, see `skipReasons`. */
+  filesSkipped: number;
+  /** Number of skipped files by reason, see `getSkipReason`. */
+  skipReasons: Record<string, number>;
+  /** Files whose content could not be read. */
+  filesFailed: number;
+  /** Findings so far, not counting suppressed ones. */
+  findings: number;
+  /** Bytes of file content (or patches, for history scans) scanned. */
+  bytesRead: number;
+  /** GitHub REST API requests made, which count against the rate limit. */
+  apiCalls: number;
+  /** History scans: commits to walk and commits walked so far. */
+  commits?: { total: number; scanned: number };
+}
+
+/**
+ * An event of a running scan, as streamed by `/api/scan` one JSON object
+ * per line. A stream starts with a `started` event carrying the id to
+ * pause, resume or cancel the scan with (see `controlScan`), and always
+ * ends with a `result` or an `error` event.
+ */
+export type ScanEvent =
+  | { type: "started"; scanId: string }
+  | { type: "progress"; progress: ScanProgress }
+  | { type: "file"; path: string; status: "scanned" | "failed"; error?: string }
+  | { type: "finding"; finding: SecretMatch }
+  | { type: "result"; result: ScanResult }
+  | { type: "error"; message: string };
+
+/** Records the progress of a scan and reports every change as an event. */
+export interface ScanProgressTracker {
+  readonly progress: ScanProgress;
+  /** Set the status message. */
+  status(message: string): void;
+  /** Count GitHub API requests. */
+  apiCalls(count?: number): void;
+  /** Count files that will be looked at. */
+  discovered(count: number): void;
+  /** Count a skipped file; reported with the next update. */
+  skipped(reason: string): void;
+  scanned(path: string, bytes: number, matches: SecretMatch[]): void;
+  failed(path: string, error: unknown): void;
+  /** Set the number of commits a history scan walks, or count one walked. */
+  commits(total?: number): void;
+}
+
+/**
+ * Create the progress tracker of a scan. Every update is passed to
+ * `onEvent` as a `progress` event carrying a snapshot of the counters;
+ * scanned and failed files and new findings are reported as their own
+ * events first.
+ *
+ * @example
+ * const tracker = createScanProgress((event) => console.log(event.type));
+ * tracker.status('Listing repository files...');
+ *
+ * @param {(event: ScanEvent) => void} [onEvent] - Receives the events.
+ * @returns {ScanProgressTracker} The tracker.
+ */
+export function createScanProgress(
+  onEvent?: (event: ScanEvent) => void
+): ScanProgressTracker {
+  const progress: ScanProgress = {
+    message: "",
+    filesDiscovered: 0,
+    filesScanned: 0,
+    filesSkipped: 0,
+    skipReasons: {},
+    filesFailed: 0,
+    findings: 0,
+    bytesRead: 0,
+    apiCalls: 0,
+  };
+
+  const report = () =>
+    onEvent?.({
+      type: "progress",
+      progress: {
+        ...progress,
+        skipReasons: { ...progress.skipReasons },
+        commits: progress.commits && { ...progress.commits },
+      },
+    });
+
+  return {
+    progress,
+    status(message) {
+      progress.message = message;
+      report();
+    },
+    apiCalls(count = 1) {
+      progress.apiCalls += count;
+      report();
+    },
+    discovered(count) {
+      progress.filesDiscovered += count;
+      report();
+    },
+    skipped(reason) {
+      progress.filesSkipped++;
+      progress.skipReasons[reason] = (progress.skipReasons[reason] ?? 0) + 1;
+    },
+    scanned(path, bytes, matches) {
+      progress.filesScanned++;
+      progress.bytesRead += bytes;
+      onEvent?.({ type: "file", path, status: "scanned" });
+      for (const finding of matches) {
+        if (finding.suppressed) continue;
+        progress.findings++;
+        onEvent?.({ type: "finding", finding });
+      }
+      report();
+    },
+    failed(path, error) {
+      progress.filesFailed++;
+      onEvent?.({
+        type: "file",
+        path,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      report();
+    },
+    commits(total) {
+      if (total !== undefined) {
+        progress.commits = { total, scanned: 0 };
+      } else if (progress.commits) {
+        progress.commits.scanned++;
+      }
+      report();
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import {
+  scanRepositoryForSecrets,
+  type ScanOptions,
+  type ScanResult,
+} from "@/lib/github-api";
+import type { ScanEvent, ScanProgress } from "@/lib/scan-progress";
+import {
+  describeScanOptions,
+  saveScan,
+  type StoredScan,
+} from "@/lib/scan-store";
+
+/**
+ * Run a scan on the server and save it to the scan store once it ends.
+ * Scans without a user are run but not stored: nobody could list them but
+ * every signed-out visitor, and their results hold unmasked secrets.
+ *
+ * Unlike `scanRepositoryForSecrets`, a failed scan does not throw: it is
+ * stored and returned with `status: "failed"` and the error message. The
+ * scan is returned even if it could not be stored.
+ *
+ * @example
+ * const scan = await runStoredScan(
+ *   { id: crypto.randomUUID(), userId, owner: 'owner', repo: 'repo' },
+ *   (event) => console.log(event)
+ * );
+ *
+ * @param {object} scan - The scan to run.
+ * @param {string} scan.id - Id to store the scan under.
+ * @param {string | null} scan.userId - Whose scan history it belongs to;
+ *   `null` to leave the scan out of the store.
+ * @param {string} scan.owner - GitHub repository owner (user or org).
+ * @param {string} scan.repo - Repository name.
+ * @param {ScanOptions} [scan.options={}] - Options for
+ *   `scanRepositoryForSecrets`.
+ * @param {string} [scan.trigger] - What started the scan, when not the UI.
+ * @param {string} [scan.actor] - Who the scan's requests act as, see
+ *   `GitHubCredentials`.
+ * @param {() => Promise<void>} [scan.checkAccess] - Runs before the scan;
+ *   an error it throws fails the scan without scanning anything.
+ * @param {(event: ScanEvent) => void} [onEvent] - Receives the scan's
+ *   progress events.
+ * @returns {Promise<StoredScan>} The finished scan, as stored.
+ */
+export async function runStoredScan(
+  scan: {
+    id: string;
+    userId: string | null;
+    owner: string;
+    repo: string;
+    options?: ScanOptions;
+    trigger?: string;
+    actor?: string;
+    checkAccess?: () => Promise<void>;
+  },
+  onEvent?: (event: ScanEvent) => void
+): Promise<StoredScan> {
+  const {
+    id,
+    userId,
+    owner,
+    repo,
+    options = {},
+    trigger,
+    actor,
+    checkAccess,
+  } = scan;
+  const startedAt = new Date().toISOString();
+  const failures: StoredScan["failures"] = [];
+  let progress: ScanProgress | null = null;
+  let result: ScanResult | null = null;
+  let message: string | undefined;
+
+  try {
+    await checkAccess?.();
+    result = await scanRepositoryForSecrets(
+      owner,
+      repo,
+      (event) => {
+        if (event.type === "progress") progress = event.progress;
+        if (event.type === "file" && event.status === "failed") {
+          failures.push({ path: event.path, error: event.error });
+        }
+        onEvent?.(event);
+      },
+      options
+    );
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(`Error scanning ${owner}/${repo}:`, error);
+    }
+    message =
+      error instanceof Error ? error.message : "Failed to scan repository";
+  }
+
+  const stored: StoredScan = {
+    id,
+    userId,
+    owner,
+    repo,
+    ref: result?.ref ?? options.ref ?? "HEAD",
+    options: describeScanOptions(options),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    status: !result ? "failed" : result.incomplete ? "incomplete" : "completed",
+    trigger,
+    actor,
+    error: message,
+    failures,
+    progress,
+    result,
+  };
+  try {
+    if (userId) await saveScan(stored);
+  } catch (error) {
+    // A scan that cannot be stored is still a finished scan.
+    if (process.env.NODE_ENV === "development") {
+      console.error(`Error saving scan ${id}:`, error);
+    }
+  }
+  return stored;
+}
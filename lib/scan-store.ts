@@ -0,0 +1,216 @@
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { ScanOptions, ScanResult } from "@/lib/github-api";
+import type { ScanProgress } from "@/lib/scan-progress";
+
+/**
+ * The options a scan was run with, as stored: uploaded rule sets and
+ * baselines are recorded by name only.
+ */
+export type StoredScanOptions = Pick<
+  ScanOptions,
+  | "mode"
+  | "ref"
+  | "maxFiles"
+  | "concurrency"
+  | "maxDepth"
+  | "maxFileSize"
+  | "since"
+  | "until"
+  | "maxCommits"
+  | "commits"
+  | "pullRequest"
+  | "entropy"
+  | "verify"
+> & {
+  rulesets: string[];
+  /** Uploaded baseline, `null` when baselines were turned off. */
+  baseline?: string | null;
+};
+
+/** A finished, cancelled or failed scan as kept in the scan store. */
+export interface StoredScan {
+  id: string;
+  /**
+   * GitHub user id of whoever ran the scan; `null` when signed out. Scans
+   * without a user are not stored, see `runStoredScan`.
+   */
+  userId: string | null;
+  owner: string;
+  repo: string;
+  ref: string;
+  options: StoredScanOptions;
+  startedAt: string;
+  finishedAt: string;
+  status: "completed" | "incomplete" | "failed";
+  /** What started the scan, for scans not run from the UI. */
+  trigger?: string;
+  /** Who the scan's GitHub requests acted as, see `GitHubCredentials`. */
+  actor?: string;
+  /** Why the scan failed, for failed scans. */
+  error?: string;
+  /** Files (or commits) that could not be read. */
+  failures: { path: string; error?: string }[];
+  /** Final counters of the scan, see `ScanProgress`. */
+  progress: ScanProgress | null;
+  result: ScanResult | null;
+}
+
+/** The part of a stored scan listed on the scan history page. */
+export type ScanSummary = Pick<
+  StoredScan,
+  | "id"
+  | "userId"
+  | "owner"
+  | "repo"
+  | "ref"
+  | "startedAt"
+  | "finishedAt"
+  | "status"
+  | "error"
+> & {
+  mode: NonNullable<ScanOptions["mode"]>;
+  commitSha?: string;
+  findings: number;
+};
+
+const SCAN_ID = /^[0-9a-f-]{36}$/;
+
+/** Directory of the store, `.data/scans` unless `SCAN_STORE_DIR` is set. */
+function storeDir(): string {
+  return (
+    process.env.SCAN_STORE_DIR ?? path.join(process.cwd(), ".data", "scans")
+  );
+}
+
+/**
+ * Describe the options of a scan for the store, without the uploaded rule
+ * set and baseline contents or the controls of a running scan.
+ *
+ * @param {ScanOptions} options - Options the scan was started with.
+ * @returns {StoredScanOptions} The options to store.
+ */
+export function describeScanOptions(options: ScanOptions): StoredScanOptions {
+  const { baseline } = options;
+  return {
+    mode: options.mode,
+    ref: options.ref,
+    maxFiles: options.maxFiles,
+    concurrency: options.concurrency,
+    maxDepth: options.maxDepth,
+    maxFileSize: options.maxFileSize,
+    since: options.since,
+    until: options.until,
+    maxCommits: options.maxCommits,
+    commits: options.commits,
+    pullRequest: options.pullRequest,
+    entropy: options.entropy,
+    verify: options.verify,
+    rulesets: options.rulesets?.map((ruleset) => ruleset.source) ?? [],
+    baseline: baseline === undefined ? undefined : baseline?.source ?? null,
+  };
+}
+
+/**
+ * Save a scan to the store.
+ *
+ * Every scan is written to its own `<id>.json` file and listed in
+ * `index.jsonl`, one summary per line. Stored results include the detected
+ * secrets, so the files are only readable by the server's user.
+ *
+ * @example
+ * await saveScan({ id: scan.id, userId, owner, repo, ref, ... });
+ *
+ * @param {StoredScan} scan - The scan to save, with a `userId`.
+ * @throws {Error} Throws when the scan has no user or the store cannot be
+ *   written.
+ */
+export async function saveScan(scan: StoredScan): Promise<void> {
+  if (!SCAN_ID.test(scan.id)) throw new Error(`Invalid scan id: ${scan.id}`);
+  if (!scan.userId) throw new Error(`Scan ${scan.id} has no user`);
+  const dir = storeDir();
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+
+  const file = path.join(dir, `${scan.id}.json`);
+  await writeFile(`${file}.tmp`, JSON.stringify(scan), { mode: 0o600 });
+  await rename(`${file}.tmp`, file);
+
+  const summary: ScanSummary = {
+    id: scan.id,
+    userId: scan.userId,
+    owner: scan.owner,
+    repo: scan.repo,
+    ref: scan.ref,
+    mode: scan.result?.mode ?? scan.options.mode ?? "api",
+    commitSha: scan.result?.commitSha,
+    startedAt: scan.startedAt,
+    finishedAt: scan.finishedAt,
+    status: scan.status,
+    error: scan.error,
+    findings: scan.result?.secrets.length ?? 0,
+  };
+  await appendFile(
+    path.join(dir, "index.jsonl"),
+    `${JSON.stringify(summary)}\n`,
+    { mode: 0o600 }
+  );
+}
+
+/**
+ * List the stored scans of a user, newest first.
+ *
+ * @param {string | null} userId - GitHub user id, or `null` when signed
+ *   out. Signed-out visitors have no scan history.
+ * @returns {Promise<ScanSummary[]>} The scans, empty when there are none.
+ */
+export async function listScans(userId: string | null): Promise<ScanSummary[]> {
+  if (!userId) return [];
+  let index: string;
+  try {
+    index = await readFile(path.join(storeDir(), "index.jsonl"), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return index
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ScanSummary)
+    .filter((scan) => scan.userId === userId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Read a stored scan of a user.
+ *
+ * @param {string} id - Scan id.
+ * @param {string | null} userId - GitHub user id, or `null` when signed
+ *   out. Scans of other users, and any scan when signed out, are not
+ *   returned.
+ * @returns {Promise<StoredScan | null>} The scan, or `null` when there is no
+ *   such scan for the user.
+ */
+export async function getScan(
+  id: string,
+  userId: string | null
+): Promise<StoredScan | null> {
+  if (!userId || !SCAN_ID.test(id)) return null;
+
+  let scan: StoredScan;
+  try {
+    scan = JSON.parse(
+      await readFile(path.join(storeDir(), `${id}.json`), "utf8")
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return scan.userId === userId ? scan : null;
+}
@@ -0,0 +1,545 @@
+import { ENTROPY_PATTERN, type SecretPattern } from "@/constants/pattern";
+import type { CommitDetails } from "@/app/actions/get_commits";
+import { parseAddedLines, type DiffLine } from "@/lib/diff";
+import type { ScanOptions, SecretMatch } from "@/lib/github-api";
+import type { ScanProgressTracker } from "@/lib/scan-progress";
+import {
+  getPatterns,
+  matchAllowlistedPath,
+  matchConfigGlobs,
+  type ScanConfig,
+} from "@/lib/scan-config";
+
+export const SKIP_DIRS = [
+  ".git",
+  "node_modules",
+  ".venv",
+  "venv",
+  "dist",
+  "build",
+  ".next",
+];
+
+export const SKIP_FILES = [
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  ".DS_Store",
+  "package.json",
+];
+
+export const TEXT_EXTENSIONS = [
+  ".js",
+  ".ts",
+  ".tsx",
+  ".jsx",
+  ".py",
+  ".java",
+  ".go",
+  ".rb",
+  ".php",
+  ".env",
+  ".yml",
+  ".yaml",
+  ".json",
+  ".xml",
+  ".sh",
+  ".bash",
+  ".sql",
+  ".properties",
+  ".conf",
+  ".config",
+  ".txt",
+  ".md",
+  ".dockerfile",
+];
+
+/**
+ * Decide whether a repository file is eligible for scanning, and if not, why.
+ *
+ * A file is skipped when it lives below one of `SKIP_DIRS`, is one of
+ * `SKIP_FILES`, is deeper than `maxDepth` directories, is larger than
+ * `maxFileSize` bytes or does not have one of the `TEXT_EXTENSIONS`. A
+ * repository config can exclude further files and, through its `include`
+ * globs, replace the extension check.
+ *
+ * @example
+ * getSkipReason('node_modules/a/index.js', 120, limits); // 'vendored directory'
+ *
+ * @param {string} path - Repository-relative file path.
+ * @param {number | undefined} size - File size in bytes, if known.
+ * @param {{ maxDepth: number; maxFileSize: number }} limits - Depth and size limits.
+ * @param {ScanConfig | null} [config] - Repository config, if any.
+ * @returns {string | null} Why the file is skipped, or `null` when it should
+ *   be scanned.
+ */
+export function getSkipReason(
+  path: string,
+  size: number | undefined,
+  limits: { maxDepth: number; maxFileSize: number },
+  config?: ScanConfig | null
+): string | null {
+  const segments = path.split("/");
+  const name = segments[segments.length - 1];
+  const dirs = segments.slice(0, -1);
+
+  if (dirs.length > limits.maxDepth) return "too deep";
+  if (dirs.some((dir) => SKIP_DIRS.includes(dir))) return "vendored directory";
+  if (SKIP_FILES.includes(name)) return "ignored file";
+  if (size !== undefined && size > limits.maxFileSize) return "too large";
+
+  const configured = config ? matchConfigGlobs(path, config) : undefined;
+  if (configured === false) return "excluded by config";
+  if (configured) return null;
+
+  return TEXT_EXTENSIONS.some((ext) => name.toLowerCase().endsWith(ext))
+    ? null
+    : "unsupported file type";
+}
+
+/**
+ * Decide whether a repository file is eligible for scanning; see
+ * `getSkipReason`.
+ *
+ * @param {string} path - Repository-relative file path.
+ * @param {number | undefined} size - File size in bytes, if known.
+ * @param {{ maxDepth: number; maxFileSize: number }} limits - Depth and size limits.
+ * @param {ScanConfig | null} [config] - Repository config, if any.
+ * @returns {boolean} `true` when the file should be scanned.
+ */
+export function shouldScanFile(
+  path: string,
+  size: number | undefined,
+  limits: { maxDepth: number; maxFileSize: number },
+  config?: ScanConfig | null
+): boolean {
+  return getSkipReason(path, size, limits, config) === null;
+}
+
+/**
+ * Default settings of the entropy detector.
+ *
+ * A value of n characters scores at most log2(n) bits per character (when
+ * no character repeats), so `minLength` is the shortest length that can
+ * exceed `base64Threshold`: log2(23) ≈ 4.52. A lower `minLength` would only
+ * admit candidates that can never be reported.
+ */
+export const DEFAULT_ENTROPY_OPTIONS: Required<
+  NonNullable<ScanOptions["entropy"]>
+> = {
+  enabled: true,
+  base64Threshold: 4.5,
+  hexThreshold: 3.0,
+  minLength: 23,
+};
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=-_";
+const HEX_CHARS = "0123456789abcdefABCDEF";
+
+const QUOTED_STRING = /(["'`])([^"'`\s]+)\1/g;
+const ASSIGNED_VALUE = /[:=]\s*([^\s"'`;,)}\]]+)/g;
+
+/**
+ * Shannon entropy of `value` in bits per character, counted over the
+ * characters of `charset` only.
+ */
+export function shannonEntropy(value: string, charset: string): number {
+  let entropy = 0;
+  for (const char of new Set(charset)) {
+    const count = value.split(char).length - 1;
+    if (count === 0) continue;
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Find high-entropy values on a single line.
+ *
+ * Candidates are quoted strings and values on the right-hand side of `=` or
+ * `:` that are at least `minLength` characters long. Candidates made only of
+ * hex digits are scored against `hexThreshold`, other base64/base64url
+ * candidates against `base64Threshold`; anything else is ignored.
+ */
+function findHighEntropyValues(
+  line: string,
+  options: Required<NonNullable<ScanOptions["entropy"]>>
+): {
+  value: string;
+  entropy: number;
+  charset: "hex" | "base64";
+  threshold: number;
+}[] {
+  const candidates = new Set<string>();
+  for (const found of line.matchAll(QUOTED_STRING)) candidates.add(found[2]);
+  for (const found of line.matchAll(ASSIGNED_VALUE)) candidates.add(found[1]);
+
+  const results = [];
+  for (const value of candidates) {
+    if (value.length < options.minLength) continue;
+
+    const isHex = [...value].every((char) => HEX_CHARS.includes(char));
+    const isBase64 = [...value].every((char) => BASE64_CHARS.includes(char));
+    if (!isHex && !isBase64) continue;
+
+    const charset = isHex ? "hex" : "base64";
+    const entropy = shannonEntropy(value, isHex ? HEX_CHARS : BASE64_CHARS);
+    const threshold = isHex ? options.hexThreshold : options.base64Threshold;
+    if (entropy > threshold) {
+      results.push({ value, entropy, charset, threshold } as const);
+    }
+  }
+  return results;
+}
+
+/**
+ * Apply a pattern's optional Gitleaks-style constraints to a regex match and
+ * return the secret it holds, or `null` when the match has to be ignored
+ * because of the pattern's `entropy` minimum or `allowlist`.
+ */
+function secretFromMatch(
+  pattern: SecretPattern,
+  found: RegExpExecArray,
+  file: string
+): string | null {
+  const secret =
+    pattern.secretGroup === undefined
+      ? found[0]
+      : pattern.secretGroup === 0
+      ? found.slice(1).find(Boolean) ?? found[0]
+      : found[pattern.secretGroup] ?? found[0];
+
+  if (
+    pattern.entropy !== undefined &&
+    shannonEntropy(secret, secret) <= pattern.entropy
+  ) {
+    return null;
+  }
+
+  const { allowlist } = pattern;
+  if (!allowlist) return secret;
+  const lower = secret.toLowerCase();
+  if (allowlist.paths?.some((path) => path.test(file))) return null;
+  if (allowlist.regexes?.some((regex) => regex.test(secret))) return null;
+  if (allowlist.stopwords?.some((word) => lower.includes(word.toLowerCase()))) {
+    return null;
+  }
+  return secret;
+}
+
+const ALLOW_MARKER =
+  /secretscan:allow(?:[ \t]+([A-Za-z0-9_][\w-]*(?:[ \t]*,[ \t]*[A-Za-z0-9_][\w-]*)*))?/;
+
+/**
+ * Explain why a finding is suppressed, or return `undefined` when it is not.
+ *
+ * A `secretscan:allow` marker on the first line of the finding or on the line
+ * above silences it; `secretscan:allow <id>[, <id>...]` only silences
+ * findings of the listed pattern ids. The config's `allowlist.paths` and
+ * `allowlist.values` silence findings in matching files and findings holding
+ * one of the values.
+ */
+function suppressionReason(
+  secret: SecretMatch,
+  contentAt: Map<number, string>,
+  config?: ScanConfig | null
+): string | undefined {
+  for (const lineNumber of [secret.line, secret.line - 1]) {
+    const marker = ALLOW_MARKER.exec(contentAt.get(lineNumber) ?? "");
+    if (!marker) continue;
+    const ids = marker[1]?.split(",").map((id) => id.trim());
+    if (!ids || ids.includes(secret.type)) {
+      return `secretscan:allow on line ${lineNumber}`;
+    }
+  }
+
+  if (!config) return undefined;
+  const glob = matchAllowlistedPath(secret.file, config);
+  if (glob) return `Path allowlisted by "${glob}" in ${config.source}`;
+  if (
+    config.allowlist.values.some((value) =>
+      (secret.match ?? secret.content).includes(value)
+    )
+  ) {
+    return `Value allowlisted in ${config.source}`;
+  }
+  return undefined;
+}
+
+/** Whether `text` contains one of the pattern's keywords, if it has any. */
+function hasKeyword(pattern: SecretPattern, text: string): boolean {
+  if (!pattern.keywords || pattern.keywords.length === 0) return true;
+  const lower = text.toLowerCase();
+  return pattern.keywords.some((keyword) => lower.includes(keyword));
+}
+
+/**
+ * Run every pattern in `SECRET_PATTERNS` over a set of numbered lines.
+ *
+ * When `options.config` holds a repository config, its disabled patterns,
+ * custom rules, severity overrides and entropy thresholds are applied (see
+ * `getPatterns`). Findings silenced by an inline `secretscan:allow` marker or
+ * the config allowlist are kept with a `suppressed` reason so they can be
+ * audited (see `suppressionReason`). Patterns imported from Gitleaks are only tried on lines holding
+ * one of their keywords and report the secret group as `match`.
+ *
+ * This is the building block for both whole-file scans (`scanContent`) and
+ * diff scans, where only the added lines of a patch are available. Every hit
+ * produces one `SecretMatch` carrying the matched text and the first 100
+ * characters of the line as preview.
+ *
+ * Unless disabled through `options.entropy`, each line is also run through
+ * the Shannon-entropy detector, which reports random-looking values that no
+ * pattern matched as `ENTROPY_PATTERN` findings with an `explanation` of
+ * their score.
+ *
+ * Multi-line patterns are matched against each run of consecutive lines (see
+ * `scanBlocks`) and report an `endLine`. Findings that fall inside the range
+ * of a multi-line finding, such as the `BEGIN` header of a private key, are
+ * dropped in favour of the multi-line finding.
+ *
+ * @param {string} file - Repository-relative path reported in the matches.
+ * @param {DiffLine[]} lines - Lines to scan with their 1-based line numbers.
+ * @param {ScanOptions} [options={}] - Detector options (`entropy`, `config`).
+ * @returns {SecretMatch[]} The matches found, in line order.
+ */
+export function scanLines(
+  file: string,
+  lines: DiffLine[],
+  options: ScanOptions = {}
+): SecretMatch[] {
+  const { config } = options;
+  const patterns = getPatterns(config);
+  const secrets: SecretMatch[] = [];
+  const entropy = {
+    ...DEFAULT_ENTROPY_OPTIONS,
+    ...config?.entropy,
+    ...options.entropy,
+  };
+  if (config?.disabledPatterns.includes(ENTROPY_PATTERN.id)) {
+    entropy.enabled = false;
+  }
+
+  lines.forEach(({ line: lineNumber, content: line }) => {
+    const lineStart = secrets.length;
+
+    patterns.forEach((pattern) => {
+      if (pattern.multiline || !hasKeyword(pattern, line)) return;
+      let found: RegExpExecArray | null;
+      while ((found = pattern.regex.exec(line))) {
+        const secret = secretFromMatch(pattern, found, file);
+        if (secret !== null) {
+          secrets.push({
+            file,
+            line: lineNumber,
+            column: found.index + Math.max(found[0].indexOf(secret), 0) + 1,
+            content: line.substring(0, 100),
+            match: secret,
+            type: pattern.id,
+            name: pattern.name,
+            description: pattern.description,
+            severity: pattern.severity,
+          });
+          break;
+        }
+        if (!pattern.regex.global) break;
+        if (found[0].length === 0) pattern.regex.lastIndex++;
+      }
+      if (pattern.regex.global) pattern.regex.lastIndex = 0;
+    });
+
+    if (!entropy.enabled) return;
+    const matched = secrets
+      .slice(lineStart)
+      .map((secret) => secret.match ?? "");
+
+    for (const found of findHighEntropyValues(line, entropy)) {
+      if (matched.some((text) => text.includes(found.value))) continue;
+      secrets.push({
+        file,
+        line: lineNumber,
+        column: line.indexOf(found.value) + 1,
+        content: line.substring(0, 100),
+        match: found.value,
+        type: ENTROPY_PATTERN.id,
+        name: ENTROPY_PATTERN.name,
+        description: ENTROPY_PATTERN.description,
+        severity:
+          config?.severityOverrides[ENTROPY_PATTERN.id] ??
+          ENTROPY_PATTERN.severity,
+        explanation: `${
+          found.charset === "hex" ? "Hex" : "Base64"
+        } entropy of ${found.entropy.toFixed(2)} bits/char over ${
+          found.value.length
+        } characters exceeds the threshold of ${found.threshold.toFixed(2)}.`,
+      });
+    }
+  });
+
+  const blocks = scanBlocks(file, lines, patterns);
+  const contentAt = new Map(lines.map(({ line, content }) => [line, content]));
+  const suppress = (secret: SecretMatch): SecretMatch => {
+    const reason = suppressionReason(secret, contentAt, config);
+    return reason ? { ...secret, suppressed: reason } : secret;
+  };
+  if (blocks.length === 0) return secrets.map(suppress);
+
+  const span = (secret: SecretMatch) =>
+    (secret.endLine ?? secret.line) - secret.line;
+  const covers = (block: SecretMatch, secret: SecretMatch) =>
+    block !== secret &&
+    block.line <= secret.line &&
+    secret.line + span(secret) <= block.line + span(block) &&
+    (secret.endLine === undefined || span(block) > span(secret));
+
+  return [...blocks, ...secrets]
+    .filter((secret) => !blocks.some((block) => covers(block, secret)))
+    .map(suppress)
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Run the multi-line `patterns` over runs of consecutive lines, so that a
+ * diff with several hunks is never matched across a gap. Each match reports
+ * the line it starts on and the line it ends on.
+ */
+function scanBlocks(
+  file: string,
+  lines: DiffLine[],
+  allPatterns: SecretPattern[]
+): SecretMatch[] {
+  const patterns = allPatterns.filter((pattern) => pattern.multiline);
+  const secrets: SecretMatch[] = [];
+
+  const runs: DiffLine[][] = [];
+  for (const line of lines) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1].line + 1 === line.line) run.push(line);
+    else runs.push([line]);
+  }
+
+  for (const run of runs) {
+    const text = run.map((line) => line.content).join("\n");
+    const lineAt = (offset: number) =>
+      run[text.slice(0, offset).split("\n").length - 1].line;
+
+    for (const pattern of patterns) {
+      if (!hasKeyword(pattern, text)) continue;
+      pattern.regex.lastIndex = 0;
+      let found: RegExpExecArray | null;
+      while ((found = pattern.regex.exec(text))) {
+        const secret = secretFromMatch(pattern, found, file);
+        if (secret === null) {
+          if (!pattern.regex.global) break;
+          if (found[0].length === 0) pattern.regex.lastIndex++;
+          continue;
+        }
+        const start = found.index;
+        const end = start + Math.max(found[0].length - 1, 0);
+        secrets.push({
+          file,
+          line: lineAt(start),
+          endLine: lineAt(end),
+          column: start - text.lastIndexOf("\n", start - 1),
+          content: found[0].split("\n")[0].substring(0, 100),
+          match: secret,
+          type: pattern.id,
+          name: pattern.name,
+          description: pattern.description,
+          severity: pattern.severity,
+        });
+        if (!pattern.regex.global) break;
+        if (found[0].length === 0) pattern.regex.lastIndex++;
+      }
+      pattern.regex.lastIndex = 0;
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * Run every pattern in `SECRET_PATTERNS` over the content of a single file.
+ *
+ * Content is split into lines and each line is tested against each pattern;
+ * see `scanLines` for the shape of the reported matches.
+ *
+ * @example
+ * const matches = scanContent('config/.env', 'AWS_KEY=AKIA...');
+ *
+ * @param {string} file - Repository-relative path reported in the matches.
+ * @param {string} content - Full text content of the file.
+ * @param {ScanOptions} [options={}] - Detector options, see `scanLines`.
+ * @returns {SecretMatch[]} The matches found in the file, in line order.
+ */
+export function scanContent(
+  file: string,
+  content: string,
+  options: ScanOptions = {}
+): SecretMatch[] {
+  const lines = content
+    .split("\n")
+    .map((line, index) => ({ line: index + 1, content: line }));
+  return scanLines(file, lines, options);
+}
+
+/**
+ * Scan the lines a commit added, file by file.
+ *
+ * Files are filtered like in a snapshot scan (see `getSkipReason`); files
+ * without a patch (binary files, or diffs too large for GitHub to render)
+ * are skipped. Every finding records the commit SHA, author and date. Needs
+ * no network access, so it works on a recorded commit as well.
+ *
+ * @example
+ * const commit = await getCommit('owner', 'repo', sha);
+ * const matches = scanCommit(commit, { maxDepth: 10, maxFileSize: 1024 * 1024 });
+ *
+ * @param {CommitDetails} commit - The commit with its file patches.
+ * @param {{ maxDepth: number; maxFileSize: number }} limits - Depth and size limits.
+ * @param {ScanOptions} [options={}] - Detector options, see `scanLines`.
+ * @param {ScanProgressTracker} [progress] - Tracker to report files to.
+ * @returns {SecretMatch[]} The matches found, file by file.
+ */
+export function scanCommit(
+  commit: CommitDetails,
+  limits: { maxDepth: number; maxFileSize: number },
+  options: ScanOptions = {},
+  progress?: ScanProgressTracker
+): SecretMatch[] {
+  const found: SecretMatch[] = [];
+
+  progress?.discovered(commit.files.length);
+  for (const file of commit.files) {
+    if (!file.patch) {
+      progress?.skipped("no diff");
+      continue;
+    }
+    const reason = getSkipReason(
+      file.filename,
+      undefined,
+      limits,
+      options.config
+    );
+    if (reason) {
+      progress?.skipped(reason);
+      continue;
+    }
+
+    const matches = scanLines(
+      file.filename,
+      parseAddedLines(file.patch),
+      options
+    ).map((match) => ({
+      ...match,
+      commitSha: commit.sha,
+      commitAuthor: commit.author,
+      commitDate: commit.date,
+    }));
+    found.push(...matches);
+    progress?.scanned(file.filename, file.patch.length, matches);
+  }
+  return found;
+}
@@ -0,0 +1,234 @@
+import { Readable, pipeline } from "node:stream";
+import { createGunzip } from "node:zlib";
+
+const BLOCK_SIZE = 512;
+
+/** Pax and GNU long name headers larger than this are skipped. */
+const MAX_HEADER_SIZE = 1024 * 1024;
+
+export interface TarEntry {
+  path: string;
+  size: number;
+  /** `null` when the entry is larger than `maxEntrySize`. */
+  content: Buffer | null;
+}
+
+/** Limits of `extractTarball`, in bytes; unlimited by default. */
+export interface TarLimits {
+  /** Entries larger than this are skipped without being read. */
+  maxEntrySize?: number;
+  /** Stop with a `RangeError` once more than this has been decompressed. */
+  maxTotalSize?: number;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf8");
+}
+
+function readSize(block: Buffer, offset: number, length: number): number {
+  const field = block.subarray(offset, offset + length);
+  // GNU base-256 encoding for sizes that do not fit in 11 octal digits.
+  if (field[0] & 0x80) {
+    let size = 0;
+    for (let i = 1; i < field.length; i++) size = size * 256 + field[i];
+    return size;
+  }
+  const octal = readString(block, offset, length).trim();
+  return octal ? Number.parseInt(octal, 8) : 0;
+}
+
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number.parseInt(data.subarray(offset, space).toString(), 10);
+    if (!length) break;
+    const record = data
+      .subarray(space + 1, offset + length - 1)
+      .toString("utf8");
+    const eq = record.indexOf("=");
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+/** Gunzip `source` as it streams in, unless it is not gzipped. */
+async function* decompress(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<Buffer> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+  const chunks = (async function* () {
+    try {
+      yield first.value;
+      for (;;) {
+        const next = await iterator.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+    }
+  })();
+
+  if (first.value[0] !== 0x1f || first.value[1] !== 0x8b) {
+    for await (const chunk of chunks) {
+      yield Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    }
+    return;
+  }
+  const gunzip = createGunzip();
+  // Errors of either stream surface through `gunzip` below.
+  pipeline(Readable.from(chunks), gunzip, () => {});
+  for await (const chunk of gunzip) yield chunk as Buffer;
+}
+
+/**
+ * Read a byte stream a given number of bytes at a time, counting the bytes
+ * against `maxTotalSize`.
+ */
+function createReader(source: AsyncIterable<Buffer>, maxTotalSize: number) {
+  const iterator = source[Symbol.asyncIterator]();
+  const pending: Buffer[] = [];
+  let buffered = 0;
+  let total = 0;
+  let done = false;
+
+  const pull = async (): Promise<boolean> => {
+    if (done) return false;
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      return false;
+    }
+    total += next.value.length;
+    if (total > maxTotalSize) {
+      throw new RangeError(
+        `The archive is larger than ${maxTotalSize} bytes uncompressed`
+      );
+    }
+    pending.push(next.value);
+    buffered += next.value.length;
+    return true;
+  };
+
+  // Takes up to `length` bytes off the front of `pending`, without copying.
+  const take = (length: number): Buffer[] => {
+    const parts: Buffer[] = [];
+    while (length > 0 && pending.length > 0) {
+      const chunk = pending[0];
+      const part = chunk.subarray(0, length);
+      parts.push(part);
+      if (part.length === chunk.length) pending.shift();
+      else pending[0] = chunk.subarray(length);
+      buffered -= part.length;
+      length -= part.length;
+    }
+    return parts;
+  };
+
+  return {
+    /** The next `length` bytes, fewer at the end of the stream. */
+    async read(length: number): Promise<Buffer> {
+      while (buffered < length && (await pull()));
+      return Buffer.concat(take(length));
+    },
+    /** Drop the next `length` bytes as they come in. */
+    async skip(length: number): Promise<void> {
+      while (length > 0 && (buffered > 0 || (await pull()))) {
+        const count = Math.min(length, buffered);
+        take(count);
+        length -= count;
+      }
+    },
+    async close(): Promise<void> {
+      await iterator.return?.();
+    },
+  };
+}
+
+/**
+ * Extract the regular files from a (gzipped) tar archive as it streams in.
+ *
+ * Supports the ustar, pax (`x` extended headers) and GNU long name (`L`)
+ * formats that GitHub and `git archive` produce. Directories, links and
+ * global pax headers are skipped. Paths are returned exactly as stored in
+ * the archive.
+ *
+ * Only the entry being read is held in memory: entries larger than
+ * `limits.maxEntrySize` are passed over without being copied and come with
+ * `content: null`, and reading stops with a `RangeError` once the archive
+ * decompresses to more than `limits.maxTotalSize` bytes, so an archive bomb
+ * cannot exhaust the server's memory.
+ *
+ * @example
+ * for await (const entry of extractTarball(body, { maxEntrySize: 1024 * 1024 })) {
+ *   if (entry.content) console.log(entry.path);
+ * }
+ *
+ * @param {AsyncIterable<Uint8Array>} archive - Tarball bytes, gzipped or not.
+ * @param {TarLimits} [limits={}] - Size limits.
+ * @returns {AsyncGenerator<TarEntry>} Regular file entries in archive order.
+ * @throws {RangeError} Throws when the archive exceeds `maxTotalSize`.
+ */
+export async function* extractTarball(
+  archive: AsyncIterable<Uint8Array>,
+  limits: TarLimits = {}
+): AsyncGenerator<TarEntry> {
+  const {
+    maxEntrySize = Number.POSITIVE_INFINITY,
+    maxTotalSize = Number.POSITIVE_INFINITY,
+  } = limits;
+  const reader = createReader(decompress(archive), maxTotalSize);
+  let nextPath: string | undefined;
+
+  try {
+    for (;;) {
+      const header = await reader.read(BLOCK_SIZE);
+      if (header.length < BLOCK_SIZE) break;
+      if (header.every((byte) => byte === 0)) break;
+
+      const size = readSize(header, 124, 12);
+      const type = String.fromCharCode(header[156] || 0x30);
+      const padding = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE - size;
+      const isFile = type === "0" || type === "7";
+      const wanted =
+        type === "x" || type === "L"
+          ? size <= MAX_HEADER_SIZE
+          : isFile && size <= maxEntrySize;
+
+      let body: Buffer | null = null;
+      if (wanted) body = await reader.read(size);
+      else await reader.skip(size);
+      await reader.skip(padding);
+
+      if (type === "x") {
+        if (body) nextPath = parsePaxRecords(body).path ?? nextPath;
+        continue;
+      }
+      if (type === "L") {
+        if (body) nextPath = readString(body, 0, body.length);
+        continue;
+      }
+      if (type === "g") continue;
+
+      const name = readString(header, 0, 100);
+      const prefix =
+        readString(header, 257, 6) === "ustar"
+          ? readString(header, 345, 155)
+          : "";
+      const path = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+      nextPath = undefined;
+
+      if (isFile) yield { path, size, content: body };
+    }
+  } finally {
+    await reader.close();
+  }
+}
@@ -0,0 +1,220 @@
+import type { SecretMatch } from "@/lib/github-api";
+
+export type VerificationStatus = "verified-live" | "invalid" | "unknown";
+
+/**
+ * Base URLs of the provider APIs the built-in verifiers call. Override them
+ * to point verification at local mock servers.
+ */
+export interface VerifierBaseUrls {
+  github: string;
+  gitlab: string;
+  slack: string;
+  stripe: string;
+  sendgrid: string;
+}
+
+export const DEFAULT_VERIFIER_BASE_URLS: VerifierBaseUrls = {
+  github: "https://api.github.com",
+  gitlab: "https://gitlab.com/api/v4",
+  slack: "https://slack.com/api",
+  stripe: "https://api.stripe.com",
+  sendgrid: "https://api.sendgrid.com",
+};
+
+/**
+ * Checks whether a secret is live by calling the issuing provider. Must
+ * resolve to `"unknown"` rather than throw when the provider's answer is
+ * inconclusive.
+ */
+export type SecretVerifier = (
+  secret: string,
+  baseUrls: VerifierBaseUrls
+) => Promise<VerificationStatus>;
+
+const VERIFIERS = new Map<string, SecretVerifier>();
+
+const VERIFY_TIMEOUT_MS = 10_000;
+
+/**
+ * Register the verifier used for findings of a `SECRET_PATTERNS` entry.
+ * Registering a verifier for an id that already has one replaces it.
+ *
+ * @param {string} patternId - The `id` of the pattern in `SECRET_PATTERNS`.
+ * @param {SecretVerifier} verifier - Function that checks a matched value.
+ */
+export function registerVerifier(
+  patternId: string,
+  verifier: SecretVerifier
+): void {
+  VERIFIERS.set(patternId, verifier);
+}
+
+/**
+ * Map an HTTP status from a provider's "whoami" style endpoint to a
+ * verification status: 2xx means the credential works, 401/403 that it was
+ * rejected, anything else is inconclusive.
+ */
+async function statusFromResponse(
+  request: Promise<Response>
+): Promise<VerificationStatus> {
+  const response = await request;
+  if (response.ok) return "verified-live";
+  if (response.status === 401 || response.status === 403) return "invalid";
+  return "unknown";
+}
+
+registerVerifier("github_pat", (secret, { github }) =>
+  statusFromResponse(
+    fetch(`${github}/user`, {
+      headers: {
+        Authorization: `token ${secret}`,
+        Accept: "application/vnd.github+json",
+      },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    })
+  )
+);
+
+registerVerifier("gitlab_token", (secret, { gitlab }) =>
+  statusFromResponse(
+    fetch(`${gitlab}/user`, {
+      headers: { "PRIVATE-TOKEN": secret },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    })
+  )
+);
+
+registerVerifier("stripe_secret_key", (secret, { stripe }) =>
+  statusFromResponse(
+    fetch(`${stripe}/v1/balance`, {
+      headers: { Authorization: `Bearer ${secret}` },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    })
+  )
+);
+
+registerVerifier("sendgrid_api_key", (secret, { sendgrid }) =>
+  statusFromResponse(
+    fetch(`${sendgrid}/v3/scopes`, {
+      headers: { Authorization: `Bearer ${secret}` },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    })
+  )
+);
+
+registerVerifier("slack_token", async (secret, { slack }) => {
+  // Slack answers 200 for revoked tokens too and reports the outcome in the body.
+  const response = await fetch(`${slack}/auth.test`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+    signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+  });
+  if (!response.ok) return "unknown";
+
+  const data: { ok: boolean; error?: string } = await response.json();
+  if (data.ok) return "verified-live";
+  return ["invalid_auth", "token_revoked", "account_inactive"].includes(
+    data.error ?? ""
+  )
+    ? "invalid"
+    : "unknown";
+});
+
+/**
+ * Check the detected secrets against their providers and mark each finding
+ * as `verified-live`, `invalid` or `unknown`.
+ *
+ * Findings whose pattern has no registered verifier, or that carry no matched
+ * value, are marked `unknown`. Each distinct value is verified once even when
+ * it was found in several places. Network errors and timeouts also yield
+ * `unknown`, so verification never fails a scan.
+ *
+ * This sends the secrets themselves to the provider APIs and must only run
+ * on the server.
+ *
+ * @example
+ * const verified = await verifySecrets(matches, { github: 'http://localhost:4010' });
+ *
+ * @param {SecretMatch[]} secrets - Findings to verify.
+ * @param {Partial<VerifierBaseUrls>} [baseUrls={}] - Overrides for
+ *   `DEFAULT_VERIFIER_BASE_URLS`.
+ * @returns {Promise<SecretMatch[]>} The findings with `verification` set.
+ */
+export async function verifySecrets(
+  secrets: SecretMatch[],
+  baseUrls: Partial<VerifierBaseUrls> = {}
+): Promise<SecretMatch[]> {
+  const urls = { ...DEFAULT_VERIFIER_BASE_URLS, ...baseUrls };
+  const results = new Map<string, Promise<VerificationStatus>>();
+
+  const verify = (secret: SecretMatch): Promise<VerificationStatus> => {
+    const verifier = VERIFIERS.get(secret.type);
+    if (!verifier || !secret.match) return Promise.resolve("unknown");
+
+    const key = `${secret.type}:${secret.match}`;
+    if (!results.has(key)) {
+      results.set(
+        key,
+        verifier(secret.match, urls).catch((error) => {
+          if (process.env.NODE_ENV === "development") {
+            console.error(`Error verifying ${secret.type} secret:`, error);
+          }
+          return "unknown" as const;
+        })
+      );
+    }
+    return results.get(key)!;
+  };
+
+  return Promise.all(
+    secrets.map(async (secret) => ({
+      ...secret,
+      verification: await verify(secret),
+    }))
+  );
+}
+
+/**
+ * Read verifier base URL overrides from the environment, e.g.
+ * `SECRET_VERIFIER_GITHUB_URL=http://localhost:4010` to verify GitHub tokens
+ * against a local mock server.
+ */
+function baseUrlsFromEnv(): Partial<VerifierBaseUrls> {
+  const urls: Partial<VerifierBaseUrls> = {};
+  const providers: (keyof VerifierBaseUrls)[] = [
+    "github",
+    "gitlab",
+    "slack",
+    "stripe",
+    "sendgrid",
+  ];
+  for (const provider of providers) {
+    const url = process.env[`SECRET_VERIFIER_${provider.toUpperCase()}_URL`];
+    if (url) urls[provider] = url.replace(/\/+$/, "");
+  }
+  return urls;
+}
+
+/**
+ * Verify detected secrets against their providers on the server.
+ *
+ * Thin server-side wrapper around `verifySecrets` that applies the base URL
+ * overrides configured through `SECRET_VERIFIER_<PROVIDER>_URL` environment
+ * variables. Base URLs are deliberately not accepted from the caller so
+ * secrets can only ever be sent to the configured providers.
+ *
+ * Only called by scans running on the server; it is not a server action,
+ * so the server cannot be used to check arbitrary tokens.
+ *
+ * @example
+ * const verified = await verifySecretMatches(result.secrets);
+ *
+ * @param {SecretMatch[]} secrets - Findings to verify.
+ * @returns {Promise<SecretMatch[]>} The findings with `verification` set.
+ */
+export async function verifySecretMatches(
+  secrets: SecretMatch[]
+): Promise<SecretMatch[]> {
+  return verifySecrets(secrets, baseUrlsFromEnv());
+}
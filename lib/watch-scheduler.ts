@@ -0,0 +1,141 @@
+import { diffFindings } from "@/lib/scan-diff";
+import { getScan } from "@/lib/scan-store";
+import { runStoredScan } from "@/lib/scan-runner";
+import {
+  canUserReadRepository,
+  getServerCredentials,
+  withGitHubToken,
+} from "@/lib/github-token";
+import {
+  listWatchedRepositories,
+  updateWatchlist,
+  SCHEDULE_INTERVALS,
+  type WatchRun,
+  type WatchedRepository,
+} from "@/lib/watchlist";
+
+/** How often the scheduler looks for rescans that are due. */
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Rescan one watched repository and record the outcome on its entry.
+ *
+ * The findings are compared with those of the entry's last scan that has
+ * results (failed scans have none), so `newFindings` counts what appeared
+ * since.
+ *
+ * The server's credentials may see repositories the user who added the
+ * entry cannot, so their access is checked again first: the results are
+ * stored in their scan history. Without access the rescan fails unrun.
+ */
+async function rescan(entry: WatchedRepository): Promise<void> {
+  const startedAt = Date.now();
+  const credentials = await getServerCredentials(entry.owner, entry.repo);
+  const scan = await withGitHubToken(credentials.token, () =>
+    runStoredScan({
+      id: crypto.randomUUID(),
+      userId: entry.userId,
+      owner: entry.owner,
+      repo: entry.repo,
+      options: { mode: entry.mode, ref: entry.ref },
+      trigger: `${entry.schedule} rescan`,
+      actor: credentials.actor,
+      checkAccess: async () => {
+        const allowed = await canUserReadRepository(
+          entry.owner,
+          entry.repo,
+          entry.userId,
+          credentials.token
+        );
+        if (!allowed) {
+          throw new Error(
+            "The user who added this repository can no longer read it"
+          );
+        }
+      },
+    })
+  );
+
+  const previous = entry.lastResultScanId
+    ? await getScan(entry.lastResultScanId, entry.userId)
+    : null;
+  const secrets = scan.result?.secrets ?? [];
+  const run: WatchRun = {
+    scanId: scan.id,
+    finishedAt: scan.finishedAt,
+    status: scan.status,
+    error: scan.error,
+    findings: secrets.length,
+    newFindings: previous?.result
+      ? diffFindings(previous.result.secrets, secrets).added.length
+      : secrets.length,
+    comparedWith: previous?.result ? previous.id : undefined,
+  };
+
+  await updateWatchlist((entries) =>
+    entries.map((other) =>
+      other.id === entry.id
+        ? {
+            ...other,
+            lastRun: run,
+            lastResultScanId: scan.result ? scan.id : other.lastResultScanId,
+            nextRunAt: new Date(
+              startedAt + SCHEDULE_INTERVALS[other.schedule]
+            ).toISOString(),
+          }
+        : other
+    )
+  );
+}
+
+/**
+ * Rescan every watched repository whose rescan is due, one at a time.
+ *
+ * Scans run with the credentials of `getServerCredentials` (the GitHub
+ * App's installation token, `GITHUB_SCAN_TOKEN` or anonymously) and are
+ * stored in the scan history of whoever added the repository.
+ *
+ * @example
+ * await runDueRescans();
+ *
+ * @param {number} [now=Date.now()] - The current time (ms).
+ * @returns {Promise<number>} How many repositories were rescanned.
+ */
+export async function runDueRescans(now = Date.now()): Promise<number> {
+  const due = (await listWatchedRepositories()).filter(
+    (entry) => Date.parse(entry.nextRunAt) <= now
+  );
+  for (const entry of due) await rescan(entry);
+  return due.length;
+}
+
+const scheduler = globalThis as typeof globalThis & {
+  watchScheduler?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Start checking for due rescans every minute, for as long as the server
+ * runs. Started once per server process from `instrumentation.ts`; later
+ * calls do nothing.
+ */
+export function startWatchScheduler(): void {
+  if (scheduler.watchScheduler) return;
+
+  let running = false;
+  const check = async () => {
+    // A long rescan can outlast the interval; never run two at once.
+    if (running) return;
+    running = true;
+    try {
+      await runDueRescans();
+    } catch (error) {
+      console.error("Scheduled rescans failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  scheduler.watchScheduler = setInterval(check, CHECK_INTERVAL_MS);
+  scheduler.watchScheduler.unref?.();
+  void check();
+}
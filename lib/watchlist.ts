@@ -0,0 +1,187 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { StoredScan } from "@/lib/scan-store";
+
+export type WatchSchedule = "daily" | "weekly";
+
+/** How long after a rescan the next one is due, per schedule. */
+export const SCHEDULE_INTERVALS: Record<WatchSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** The latest scheduled rescan of a watched repository. */
+export interface WatchRun {
+  scanId: string;
+  finishedAt: string;
+  status: StoredScan["status"];
+  error?: string;
+  findings: number;
+  /**
+   * Findings the previous scan with results did not have, see
+   * `diffFindings`. Every finding counts as new on the first scan; a
+   * failed scan has none.
+   */
+  newFindings: number;
+  /** The scan the findings were compared with, if any. */
+  comparedWith?: string;
+}
+
+/** A repository rescanned on a schedule. */
+export interface WatchedRepository {
+  id: string;
+  userId: string;
+  owner: string;
+  repo: string;
+  /** Branch, tag or SHA to scan; the default branch when unset. */
+  ref?: string;
+  mode: "api" | "archive";
+  schedule: WatchSchedule;
+  addedAt: string;
+  /** When the next rescan is due. */
+  nextRunAt: string;
+  lastRun?: WatchRun;
+  /** The latest scan that has results, the next rescan is compared with. */
+  lastResultScanId?: string;
+}
+
+/** The watchlist file, `.data/watchlist.json` unless `WATCHLIST_FILE` is set. */
+function watchlistFile(): string {
+  return (
+    process.env.WATCHLIST_FILE ??
+    path.join(process.cwd(), ".data", "watchlist.json")
+  );
+}
+
+async function readWatchlist(): Promise<WatchedRepository[]> {
+  try {
+    return JSON.parse(await readFile(watchlistFile(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Writes are queued so concurrent updates (from the dashboard and the
+// scheduler) do not overwrite each other. Kept on globalThis for the same
+// reason as the registry in `scan-control`.
+const queue = globalThis as typeof globalThis & {
+  watchlistWrites?: Promise<unknown>;
+};
+
+/**
+ * Read, change and write the watchlist as one step.
+ *
+ * @example
+ * await updateWatchlist((entries) => entries.filter((entry) => entry.id !== id));
+ *
+ * @param {(entries: WatchedRepository[]) => WatchedRepository[]} update -
+ *   Returns the new watchlist.
+ * @returns {Promise<WatchedRepository[]>} The watchlist as written.
+ * @throws {Error} Throws when the watchlist cannot be read or written, or
+ *   when `update` throws.
+ */
+export function updateWatchlist(
+  update: (entries: WatchedRepository[]) => WatchedRepository[]
+): Promise<WatchedRepository[]> {
+  const write = (queue.watchlistWrites ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const entries = update(await readWatchlist());
+      const file = watchlistFile();
+      await mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+      await writeFile(`${file}.tmp`, JSON.stringify(entries, null, 2), {
+        mode: 0o600,
+      });
+      await rename(`${file}.tmp`, file);
+      return entries;
+    });
+  queue.watchlistWrites = write;
+  return write;
+}
+
+/**
+ * List watched repositories, in the order they were added.
+ *
+ * @param {string} [userId] - Only list the repositories of this GitHub
+ *   user; every user's when omitted.
+ * @returns {Promise<WatchedRepository[]>} The repositories.
+ */
+export async function listWatchedRepositories(
+  userId?: string
+): Promise<WatchedRepository[]> {
+  const entries = await readWatchlist();
+  return userId === undefined
+    ? entries
+    : entries.filter((entry) => entry.userId === userId);
+}
+
+/**
+ * Add a repository to a user's watchlist. Its first rescan is due right
+ * away, so the next run of the scheduler scans it.
+ *
+ * @example
+ * await watchRepository({ userId, owner: 'owner', repo: 'repo', mode: 'archive', schedule: 'daily' });
+ *
+ * @param {object} watch - The repository and how to scan it.
+ * @returns {Promise<WatchedRepository>} The new watchlist entry.
+ * @throws {Error} Throws when the user already watches the repository at
+ *   that ref.
+ */
+export async function watchRepository(
+  watch: Pick<
+    WatchedRepository,
+    "userId" | "owner" | "repo" | "ref" | "mode" | "schedule"
+  >
+): Promise<WatchedRepository> {
+  const now = new Date().toISOString();
+  const entry: WatchedRepository = {
+    id: crypto.randomUUID(),
+    ...watch,
+    ref: watch.ref || undefined,
+    addedAt: now,
+    nextRunAt: now,
+  };
+
+  await updateWatchlist((entries) => {
+    const duplicate = entries.some(
+      (other) =>
+        other.userId === entry.userId &&
+        other.owner.toLowerCase() === entry.owner.toLowerCase() &&
+        other.repo.toLowerCase() === entry.repo.toLowerCase() &&
+        other.ref === entry.ref
+    );
+    if (duplicate) {
+      throw new Error(
+        `${entry.owner}/${entry.repo}${
+          entry.ref ? ` @ ${entry.ref}` : ""
+        } is already on the watchlist`
+      );
+    }
+    return [...entries, entry];
+  });
+  return entry;
+}
+
+/**
+ * Remove a repository from a user's watchlist. Its stored scans are kept.
+ *
+ * @param {string} id - Watchlist entry id.
+ * @param {string} userId - GitHub user id; other users' entries are left
+ *   alone.
+ * @returns {Promise<boolean>} Whether an entry was removed.
+ */
+export async function unwatchRepository(
+  id: string,
+  userId: string
+): Promise<boolean> {
+  let removed = false;
+  await updateWatchlist((entries) =>
+    entries.filter((entry) => {
+      const match = entry.id === id && entry.userId === userId;
+      removed ||= match;
+      return !match;
+    })
+  );
+  return removed;
+}
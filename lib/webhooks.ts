@@ -0,0 +1,155 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { ScanOptions } from "@/lib/github-api";
+
+/** The parts of a GitHub `push` webhook payload the scanner uses. */
+export interface PushEvent {
+  /** Full name of the pushed ref, e.g. `refs/heads/main`. */
+  ref: string;
+  before: string;
+  after: string;
+  /** Set when the push deleted the ref. */
+  deleted: boolean;
+  repository: {
+    name: string;
+    owner: { login?: string; name?: string };
+  };
+  sender?: { id: number; login: string };
+  /** The pushed commits, oldest first (at most 2048). */
+  commits: { id: string; distinct: boolean }[];
+}
+
+/** The parts of a GitHub `pull_request` webhook payload the scanner uses. */
+export interface PullRequestEvent {
+  /** E.g. `opened`, `synchronize` (new commits) or `closed`. */
+  action: string;
+  number: number;
+  pull_request: { state: string };
+  repository: {
+    name: string;
+    owner: { login: string };
+  };
+  sender?: { id: number; login: string };
+}
+
+/**
+ * A scan a webhook delivery asks for, see `getPushScan` and
+ * `getPullRequestScan`.
+ */
+export interface WebhookScan {
+  owner: string;
+  repo: string;
+  /**
+   * GitHub user id of the sender, whose scan history the scan goes to;
+   * `null` without a sender, in which case the scan is not stored.
+   */
+  userId: string | null;
+  options: ScanOptions;
+  /** Describes the event, e.g. `push of 2 commits to main by octocat`. */
+  trigger: string;
+}
+
+/**
+ * Check the `X-Hub-Signature-256` header of a webhook delivery: the
+ * HMAC-SHA256 of the raw request body, keyed with the webhook secret.
+ *
+ * The comparison takes constant time. Needs no network access, so recorded
+ * deliveries can be checked offline.
+ *
+ * @example
+ * const body = await request.text();
+ * if (!verifyWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+ *   return new Response('Invalid signature', { status: 401 });
+ * }
+ *
+ * @param {string} payload - The raw request body, exactly as received.
+ * @param {string | null} signature - The header value, `sha256=<hex>`.
+ * @param {string} secret - The webhook secret.
+ * @returns {boolean} Whether the signature matches.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(payload).digest("hex")
+  );
+  const received = Buffer.from(signature.slice("sha256=".length));
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Work out what to scan for a push: the lines added by each pushed commit,
+ * as a history scan of exactly those commits pinned to the pushed head.
+ *
+ * Commits that are not `distinct` were already pushed to another ref of
+ * the repository and are left out.
+ *
+ * @example
+ * const scan = getPushScan(JSON.parse(body));
+ * if (scan) await runStoredScan({ id, ...scan });
+ *
+ * @param {PushEvent} event - The push payload.
+ * @returns {WebhookScan | null} The scan, or `null` when there is nothing to
+ *   scan (a deleted ref, or no new commits).
+ */
+export function getPushScan(event: PushEvent): WebhookScan | null {
+  const commits = event.commits
+    .filter((commit) => commit.distinct)
+    .map((commit) => commit.id);
+  if (event.deleted || commits.length === 0) return null;
+
+  const owner = event.repository.owner.login ?? event.repository.owner.name;
+  if (!owner) return null;
+  const branch = event.ref.replace(/^refs\/(heads|tags)\//, "");
+
+  return {
+    owner,
+    repo: event.repository.name,
+    userId: event.sender ? String(event.sender.id) : null,
+    options: { mode: "history", ref: event.after, commits },
+    trigger: `push of ${commits.length} commit${
+      commits.length === 1 ? "" : "s"
+    } to ${branch}${event.sender ? ` by ${event.sender.login}` : ""}`,
+  };
+}
+
+/** Pull request actions that change the code, as described in triggers. */
+const REVIEWED_ACTIONS: Record<string, string> = {
+  opened: "opened",
+  reopened: "reopened",
+  synchronize: "updated",
+};
+
+/**
+ * Work out what to scan for a pull request event: the lines added by the
+ * pull request's diff, when it was opened, reopened or given new commits.
+ *
+ * @example
+ * const scan = getPullRequestScan(JSON.parse(body));
+ * if (scan) await runStoredScan({ id, ...scan });
+ *
+ * @param {PullRequestEvent} event - The pull_request payload.
+ * @returns {WebhookScan | null} The scan, or `null` for other actions
+ *   (e.g. `labeled` or `closed`) and closed pull requests.
+ */
+export function getPullRequestScan(
+  event: PullRequestEvent
+): WebhookScan | null {
+  const action = REVIEWED_ACTIONS[event.action];
+  if (!action) return null;
+  if (event.pull_request.state !== "open") return null;
+
+  return {
+    owner: event.repository.owner.login,
+    repo: event.repository.name,
+    userId: event.sender ? String(event.sender.id) : null,
+    options: { mode: "pull-request", pullRequest: event.number },
+    trigger: `pull request #${event.number} ${action}${
+      event.sender ? ` by ${event.sender.login}` : ""
+    }`,
+  };
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // pdfkit reads its bundled font metrics from disk at runtime.
+  serverExternalPackages: ["pdfkit"],
   images: {
     remotePatterns: [
       {
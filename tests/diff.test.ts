@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseAddedLines } from "@/lib/diff";
+
+describe("parseAddedLines", () => {
+  it("numbers added lines through context, removed lines and hunks", () => {
+    const patch = [
+      "@@ -1,4 +1,5 @@",
+      " import os",
+      "-TOKEN = None",
+      '+TOKEN = os.environ["TOKEN"]',
+      '+REGION = "eu-west-1"',
+      " ",
+      " def main():",
+      "@@ -20,3 +21,4 @@ def main():",
+      "     run()",
+      "+    print(TOKEN)",
+      "     return 0",
+      "+",
+    ].join("\n");
+
+    expect(parseAddedLines(patch)).toEqual([
+      { line: 2, content: 'TOKEN = os.environ["TOKEN"]' },
+      { line: 3, content: 'REGION = "eu-west-1"' },
+      { line: 22, content: "    print(TOKEN)" },
+      { line: 24, content: "" },
+    ]);
+  });
+
+  it("keeps added lines whose content starts with ++", () => {
+    const patch = [
+      "@@ -0,0 +1,3 @@",
+      "++ generated by deploy.sh",
+      "++++++++",
+      "+AWS_ACCESS_KEY_ID=AKIAZ7Q3MPLE4RT2XK9D",
+    ].join("\n");
+
+    expect(parseAddedLines(patch)).toEqual([
+      { line: 1, content: "+ generated by deploy.sh" },
+      { line: 2, content: "+++++++" },
+      { line: 3, content: "AWS_ACCESS_KEY_ID=AKIAZ7Q3MPLE4RT2XK9D" },
+    ]);
+  });
+
+  it("skips file headers and no-newline markers", () => {
+    const patch = [
+      "--- a/config/deploy.env",
+      "+++ b/config/deploy.env",
+      "@@ -1,2 +1,2 @@",
+      " REGION=eu-west-1",
+      "-KEY=old",
+      "\\ No newline at end of file",
+      "+KEY=new",
+      "\\ No newline at end of file",
+    ].join("\n");
+
+    expect(parseAddedLines(patch)).toEqual([{ line: 2, content: "KEY=new" }]);
+  });
+});
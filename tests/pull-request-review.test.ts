@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reviewPullRequest } from "@/lib/pull-request-review";
+
+vi.mock("@/lib/github-app", () => ({
+  getAppLogin: vi.fn(async () => "secretscan[bot]"),
+}));
+
+const FINGERPRINT = "a".repeat(64);
+const MARKER = `<!-- secretscan:finding ${FINGERPRINT} -->`;
+const API = "https://api.github.com/repos/acme/payments/pulls";
+
+/** Review comments on the pull request: one by each of the given users. */
+function commentsBy(...logins: string[]) {
+  return logins.map((login, index) => ({
+    id: index + 1,
+    body: `${MARKER}\nA comment by ${login}.`,
+    user: { login },
+  }));
+}
+
+describe("reviewPullRequest", () => {
+  let requests: { url: string; method: string }[];
+
+  function stubGitHub(comments: ReturnType<typeof commentsBy>) {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit = {}) => {
+        requests.push({ url, method: init.method ?? "GET" });
+        if (url === "https://api.github.com/user") {
+          return Response.json({ login: "octocat" });
+        }
+        if (url.startsWith(`${API}/7/comments`)) return Response.json(comments);
+        return Response.json({});
+      })
+    );
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("leaves marker comments of other users alone", async () => {
+    stubGitHub(commentsBy("mallory", "octocat"));
+    const outcome = await reviewPullRequest(
+      "acme",
+      "payments",
+      7,
+      "0123456789abcdef0123456789abcdef01234567",
+      [],
+      "gho_usertoken"
+    );
+
+    expect(outcome).toEqual({ created: 0, updated: 0, resolved: 1 });
+    expect(requests.filter((request) => request.method === "PATCH")).toEqual([
+      { url: `${API}/comments/2`, method: "PATCH" },
+    ]);
+  });
+
+  it("takes over the comments of the GitHub App's bot", async () => {
+    stubGitHub(commentsBy("octocat", "secretscan[bot]"));
+    const outcome = await reviewPullRequest(
+      "acme",
+      "payments",
+      7,
+      "0123456789abcdef0123456789abcdef01234567",
+      [],
+      "ghs_installationtoken"
+    );
+
+    expect(outcome.resolved).toBe(1);
+    expect(requests.map((request) => request.url)).not.toContain(
+      "https://api.github.com/user"
+    );
+    expect(requests.filter((request) => request.method === "PATCH")).toEqual([
+      { url: `${API}/comments/2`, method: "PATCH" },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { compileRuleRegex } from "@/lib/rule-regex";
+import { parseScanConfig } from "@/lib/scan-config";
+import { scanContent } from "@/lib/secret-detection";
+
+/** Every match of a global regex, as `[index, lastIndex, ...groups]`. */
+function matchAll(regex: Pick<RegExp, "exec" | "lastIndex">, text: string) {
+  const matches: unknown[][] = [];
+  let found;
+  while ((found = regex.exec(text))) {
+    matches.push([found.index, regex.lastIndex, ...found]);
+    if (found[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+}
+
+describe("compileRuleRegex", () => {
+  it("matches like RegExp", () => {
+    const text = "😀acme_ab12 x ACME_cd34 acme_";
+    for (const [source, flags] of [
+      ["acme_([a-z0-9]{4})?", "g"],
+      ["acme_([a-z0-9]{4})", "gi"],
+      ["^x|acme", "gm"],
+      ["a*", "g"],
+    ]) {
+      expect(matchAll(compileRuleRegex(source, flags), text), source).toEqual(
+        matchAll(new RegExp(source, flags), text)
+      );
+    }
+  });
+
+  it("returns named groups", () => {
+    const found = compileRuleRegex("token=(?P<value>\\w+)").exec("token=abc");
+    expect(found?.groups).toEqual({ value: "abc" });
+  });
+
+  it("runs backtracking patterns in linear time", () => {
+    const regex = compileRuleRegex("(a+)+$", "g");
+    const started = Date.now();
+    expect(regex.test(`${"a".repeat(50_000)}!`)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it("rejects what RE2 cannot run", () => {
+    expect(() => compileRuleRegex("secret(?=[0-9])")).toThrow();
+    expect(() => compileRuleRegex("(a)\\1")).toThrow();
+    expect(() => compileRuleRegex("a", "y")).toThrow(
+      'unsupported regex flag "y"'
+    );
+  });
+});
+
+describe("custom rules", () => {
+  const config = parseScanConfig(
+    [
+      "rules:",
+      "  - id: acme_token",
+      '    regex: "acme_[a-z0-9]{8}"',
+      "  - id: lookahead",
+      '    regex: "key(?=[0-9])"',
+      "  - id: catastrophic",
+      '    regex: "(a+)+$"',
+    ].join("\n"),
+    ".secretscan.yml"
+  );
+
+  it("skips rules RE2 cannot run with a warning", () => {
+    expect(config.rules.map((rule) => rule.id)).toEqual([
+      "acme_token",
+      "catastrophic",
+    ]);
+    expect(config.warnings).toEqual([
+      expect.stringMatching(/^lookahead: skipped, /),
+    ]);
+  });
+
+  it("scans with the remaining rules", () => {
+    const matches = scanContent(
+      "app.env",
+      `TOKEN=acme_1a2b3c4d\n${"a".repeat(50_000)}!`,
+      { config, entropy: { enabled: false } }
+    );
+    expect(matches.map((match) => [match.type, match.line])).toEqual([
+      ["acme_token", 1],
+    ]);
+  });
+});
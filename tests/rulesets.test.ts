@@ -0,0 +1,197 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  applyRuleSets,
+  convertDetectSecretsBaseline,
+  convertGitleaksRules,
+  convertGoRegex,
+} from "@/lib/rulesets";
+import { compileRuleRegex } from "@/lib/rule-regex";
+
+const FIXTURES = join(__dirname, "fixtures", "rulesets");
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), "utf8");
+}
+
+describe("convertGoRegex", () => {
+  it("turns flag groups into regex flags", () => {
+    expect(convertGoRegex("(?i)token")).toEqual({
+      regex: "token",
+      flags: "i",
+    });
+    expect(convertGoRegex("key=(?is:a.b)")).toEqual({
+      regex: "key=(?:a.b)",
+      flags: "is",
+    });
+    expect(convertGoRegex("plain")).toEqual({ regex: "plain" });
+  });
+
+  it("rewrites named groups, anchors and POSIX classes", () => {
+    expect(convertGoRegex("\\A(?P<key>[[:xdigit:]]{8})\\z").regex).toBe(
+      "^(?<key>[0-9A-Fa-f]{8})$"
+    );
+    expect(convertGoRegex("[[:alpha:][:digit:]_]+").regex).toBe(
+      "[a-zA-Z0-9_]+"
+    );
+    // Escaped backslashes are not anchors.
+    expect(convertGoRegex("C:\\\\z").regex).toBe("C:\\\\z");
+  });
+
+  it("rejects what RE2 cannot run", () => {
+    expect(() => convertGoRegex("(?U)a+")).toThrow(
+      "ungreedy mode (?U) is not supported"
+    );
+    expect(() => convertGoRegex("(a)\\1")).toThrow();
+    expect(() => convertGoRegex("a(?=b)")).toThrow();
+  });
+});
+
+describe("convertGitleaksRules", () => {
+  const imported = convertGitleaksRules(
+    fixture("gitleaks.toml"),
+    "gitleaks.toml"
+  );
+
+  it("converts rules with their keywords, groups and allowlists", () => {
+    expect(imported.rules).toEqual([
+      {
+        id: "acme-api-key",
+        name: "acme-api-key",
+        regex: "\\b(acme_[a-zA-Z0-9]{32})\\b",
+        flags: "i",
+        description: "Acme API key",
+        severity: "high",
+        keywords: ["acme_"],
+        secretGroup: 1,
+        entropy: 3.5,
+        allowlist: {
+          regexes: [{ regex: "EXAMPLE" }, { regex: "acme_0{32}" }],
+          paths: [{ regex: "^testdata/", flags: "i" }],
+          stopwords: ["dummy"],
+        },
+      },
+      {
+        id: "internal-token",
+        name: "internal-token",
+        regex: "^(?<token>itk_[0-9a-f]{40})$",
+        flags: undefined,
+        description: "Gitleaks rule from gitleaks.toml.",
+        severity: "high",
+        keywords: undefined,
+        secretGroup: 0,
+        entropy: undefined,
+        allowlist: {
+          regexes: [{ regex: "EXAMPLE" }],
+          paths: [{ regex: "^testdata/", flags: "i" }],
+          stopwords: ["dummy"],
+        },
+      },
+    ]);
+
+    const [acme] = imported.rules;
+    const regex = compileRuleRegex(acme.regex, acme.flags);
+    expect(regex.exec(`ACME_${"x9".repeat(16)} `)?.[1]).toBe(
+      `ACME_${"x9".repeat(16)}`
+    );
+  });
+
+  it("warns about skipped rules and approximations", () => {
+    expect(imported.warnings).toEqual([
+      "gitleaks.toml extends another Gitleaks config, which is not imported; only its own rules are used",
+      'acme-api-key: allowlist regexTarget "match" is applied to the secret',
+      "acme-api-key: allowlist condition AND is treated as OR",
+      "internal-token: the path filter is ignored",
+      expect.stringMatching(/^password-lookahead: skipped, /),
+      "ungreedy: skipped, ungreedy mode (?U) is not supported",
+      "pem-files: rules without a regex are not supported",
+    ]);
+  });
+
+  it("reports malformed TOML by position only", () => {
+    expect(() =>
+      convertGitleaksRules('[[rules]]\nid = "x\nregex = "hunter2"', "bad.toml")
+    ).toThrow(/^Invalid bad\.toml: malformed TOML at line 2, column \d+$/);
+    expect(() => convertGitleaksRules('title = "x"', "empty.toml")).toThrow(
+      "Invalid empty.toml: no [[rules]] found"
+    );
+  });
+});
+
+describe("convertDetectSecretsBaseline", () => {
+  it("enables the patterns of the plugins used", () => {
+    const imported = convertDetectSecretsBaseline(
+      fixture(".secrets.baseline"),
+      ".secrets.baseline"
+    );
+
+    expect(imported.rules).toEqual([]);
+    expect(imported.entropy).toEqual({
+      base64Threshold: 4.2,
+      hexThreshold: Infinity,
+    });
+    expect(imported.disabledPatterns).toEqual([
+      "azure_storage_key",
+      "stripe_secret_key",
+      "square_access_token",
+      "github_pat",
+      "gitlab_token",
+      "slack_token",
+      "discord_token",
+      "telegram_bot_token",
+      "private_key",
+      "private_key_header",
+      "jwt_token",
+      "database_url",
+      "twilio_api_key",
+      "sendgrid_api_key",
+    ]);
+    expect(imported.warnings).toEqual([
+      "IbmCloudIamDetector: no equivalent detector, ignored",
+    ]);
+  });
+
+  it("turns the entropy detector off without entropy plugins", () => {
+    const imported = convertDetectSecretsBaseline(
+      JSON.stringify({ plugins_used: [{ name: "AWSKeyDetector" }] }),
+      ".secrets.baseline"
+    );
+    expect(imported.entropy).toBeUndefined();
+    expect(imported.disabledPatterns).toContain("high_entropy_string");
+  });
+
+  it("keeps the file content out of parse errors", () => {
+    expect(() =>
+      convertDetectSecretsBaseline('{"password": "hunter2"', "x.baseline")
+    ).toThrow(/^Invalid x\.baseline: malformed JSON$/);
+  });
+});
+
+describe("applyRuleSets", () => {
+  it("adds imported settings after the config's own", () => {
+    const config = applyRuleSets(null, [
+      {
+        format: "gitleaks",
+        source: "gitleaks.toml",
+        content: fixture("gitleaks.toml"),
+      },
+      {
+        format: "detect-secrets",
+        source: ".secrets.baseline",
+        content: fixture(".secrets.baseline"),
+      },
+    ]);
+
+    expect(config.rules.map((rule) => rule.id)).toEqual([
+      "acme-api-key",
+      "internal-token",
+    ]);
+    expect(config.disabledPatterns).toContain("github_pat");
+    expect(config.imports).toMatchObject([
+      { format: "gitleaks", source: "gitleaks.toml", rules: 2 },
+      { format: "detect-secrets", source: ".secrets.baseline", rules: 0 },
+    ]);
+    expect(config.imports[0].warnings).toHaveLength(7);
+  });
+});
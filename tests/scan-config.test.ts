@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { isRepositoryName } from "@/lib/github-api";
+import { isRepositoryPath, parseScanConfig } from "@/lib/scan-config";
+
+describe("isRepositoryPath", () => {
+  it("accepts plain relative paths", () => {
+    expect(isRepositoryPath(".gitleaks.toml")).toBe(true);
+    expect(isRepositoryPath("config/secrets/.secrets.baseline")).toBe(true);
+  });
+
+  it("rejects paths that could reach another file", () => {
+    for (const path of [
+      "../../../../repos/other-org/private/contents/secrets.env",
+      "config/../.env",
+      "./rules.toml",
+      "/rules.toml",
+      "config//rules.toml",
+      "rules.toml?ref=main",
+      "rules.toml#x",
+      "..\\rules.toml",
+      "",
+    ]) {
+      expect(isRepositoryPath(path), path).toBe(false);
+    }
+  });
+});
+
+describe("parseScanConfig", () => {
+  it("rejects rule sets outside the repository", () => {
+    expect(() =>
+      parseScanConfig(
+        "rulesets:\n  - path: ../../other/private/contents/x.toml\n    format: gitleaks\n",
+        ".secretscan.yml"
+      )
+    ).toThrow("rulesets[0].path must be a file path inside the repository");
+  });
+});
+
+describe("isRepositoryName", () => {
+  it("accepts GitHub account and repository names", () => {
+    expect(isRepositoryName("acme", "payments")).toBe(true);
+    expect(isRepositoryName("octo-cat", "my.repo_name-2")).toBe(true);
+  });
+
+  it("rejects names that would change the API URL", () => {
+    expect(isRepositoryName("acme", "..")).toBe(false);
+    expect(isRepositoryName("acme/other", "repo")).toBe(false);
+    expect(isRepositoryName("acme", "repo?x=1")).toBe(false);
+    expect(isRepositoryName("-acme", "repo")).toBe(false);
+    expect(isRepositoryName("acme", "")).toBe(false);
+    expect(isRepositoryName(undefined, "repo")).toBe(false);
+  });
+});
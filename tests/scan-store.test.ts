@@ -0,0 +1,55 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runStoredScan } from "@/lib/scan-runner";
+import { getScan, listScans } from "@/lib/scan-store";
+
+vi.mock("@/lib/github-api", () => ({
+  scanRepositoryForSecrets: vi.fn(async () => ({
+    mode: "api",
+    ref: "HEAD",
+    commitSha: "6dcb09b5b57875f334f61aebed695e2e4193db5e",
+    secrets: [],
+  })),
+}));
+
+describe("scan store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "scans-"));
+    vi.stubEnv("SCAN_STORE_DIR", dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the scans of a user to that user", async () => {
+    const id = crypto.randomUUID();
+    await runStoredScan({ id, userId: "583231", owner: "acme", repo: "app" });
+
+    expect(await listScans("583231")).toMatchObject([{ id, owner: "acme" }]);
+    expect(await getScan(id, "583231")).toMatchObject({ id, userId: "583231" });
+    expect(await listScans("9919")).toEqual([]);
+    expect(await getScan(id, "9919")).toBeNull();
+    expect(await getScan(id, null)).toBeNull();
+  });
+
+  it("does not store scans without a user", async () => {
+    const id = crypto.randomUUID();
+    const scan = await runStoredScan({
+      id,
+      userId: null,
+      owner: "acme",
+      repo: "app",
+    });
+
+    expect(scan.status).toBe("completed");
+    expect(await readdir(dir)).toEqual([]);
+    expect(await listScans(null)).toEqual([]);
+    expect(await getScan(id, null)).toBeNull();
+  });
+});
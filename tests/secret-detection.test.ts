@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENTROPY_OPTIONS, scanContent } from "@/lib/secret-detection";
+
+/** `length` distinct base64 characters, the highest-entropy value possible. */
+function distinctValue(length: number): string {
+  return "Zq8XbN3vK7mW1pR5tY9cH2jL6fD4sG0aQeUoViBn".slice(0, length);
+}
+
+describe("DEFAULT_ENTROPY_OPTIONS", () => {
+  it("sets minLength to the shortest length that can pass the threshold", () => {
+    const { base64Threshold, minLength } = DEFAULT_ENTROPY_OPTIONS;
+    expect(Math.log2(minLength)).toBeGreaterThan(base64Threshold);
+    expect(Math.log2(minLength - 1)).toBeLessThanOrEqual(base64Threshold);
+  });
+
+  it("reports random values from minLength characters on", () => {
+    const { minLength } = DEFAULT_ENTROPY_OPTIONS;
+    const scan = (value: string) =>
+      scanContent("config.ts", `const value = "${value}";`).filter(
+        (match) => match.match === value
+      );
+
+    expect(scan(distinctValue(minLength))).toHaveLength(1);
+    expect(scan(distinctValue(minLength - 1))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { extractTarball, type TarEntry, type TarLimits } from "@/lib/tar";
+
+/**
+ * Archives in `fixtures/tar`, written with Python's `tarfile` module in the
+ * ustar, pax and GNU formats, with files under a `<repo>-<sha>/` directory
+ * like GitHub's tarballs.
+ */
+const FIXTURES = join(__dirname, "fixtures", "tar");
+
+const LONG_PATH =
+  "acme-payments-6dcb09b/nested/nested/nested/nested/a-file-name-that-is-far-too-long-to-fit-in-the-one-hundred-byte-name-field-of-a-ustar-header.txt";
+
+/** Stream a fixture in small chunks, so headers straddle chunk boundaries. */
+async function* stream(name: string, chunkSize = 100) {
+  const archive = readFileSync(join(FIXTURES, name));
+  for (let offset = 0; offset < archive.length; offset += chunkSize) {
+    yield new Uint8Array(archive.subarray(offset, offset + chunkSize));
+  }
+}
+
+async function extract(name: string, limits?: TarLimits) {
+  const entries: { path: string; size: number; content: string | null }[] = [];
+  for await (const entry of extractTarball(stream(name), limits)) {
+    entries.push({ ...entry, content: text(entry) });
+  }
+  return entries;
+}
+
+function text(entry: TarEntry): string | null {
+  return entry.content?.toString("utf8") ?? null;
+}
+
+describe("extractTarball", () => {
+  it("reads the regular files of a ustar archive", async () => {
+    const entries = await extract("ustar.tar");
+
+    expect(entries.map(({ path, size }) => ({ path, size }))).toEqual([
+      { path: "acme-payments-6dcb09b/README.md", size: 11 },
+      { path: "acme-payments-6dcb09b/config/deploy.env", size: 656 },
+    ]);
+    expect(entries[0].content).toBe("# Payments\n");
+    expect(entries[1].content).toMatch(
+      /^REGION=eu-west-1\nAWS_ACCESS_KEY_ID=AKIAZ7Q3MPLE4RT2XK9D\n/
+    );
+  });
+
+  it("takes the path of a pax extended header", async () => {
+    expect(await extract("pax.tar.gz")).toEqual([
+      { path: LONG_PATH, size: 4, content: "pax\n" },
+      { path: "acme-payments-6dcb09b/short.txt", size: 6, content: "short\n" },
+    ]);
+  });
+
+  it("takes the path of a GNU long name entry", async () => {
+    expect(await extract("gnu.tar")).toEqual([
+      { path: LONG_PATH, size: 4, content: "gnu\n" },
+      { path: "acme-payments-6dcb09b/short.txt", size: 6, content: "short\n" },
+    ]);
+  });
+
+  it("passes over entries above maxEntrySize", async () => {
+    const entries = await extract("ustar.tar", { maxEntrySize: 100 });
+
+    expect(entries).toEqual([
+      {
+        path: "acme-payments-6dcb09b/README.md",
+        size: 11,
+        content: "# Payments\n",
+      },
+      {
+        path: "acme-payments-6dcb09b/config/deploy.env",
+        size: 656,
+        content: null,
+      },
+    ]);
+  });
+
+  it("stops with a RangeError above maxTotalSize", async () => {
+    await expect(extract("ustar.tar", { maxTotalSize: 1024 })).rejects.toThrow(
+      RangeError
+    );
+    await expect(extract("pax.tar.gz", { maxTotalSize: 1024 })).rejects.toThrow(
+      /larger than 1024 bytes uncompressed/
+    );
+  });
+});
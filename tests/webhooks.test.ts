@@ -0,0 +1,235 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { after } from "next/server";
+import { getCommit } from "@/app/actions/get_commits";
+import { POST } from "@/app/api/webhooks/github/route";
+import { runStoredScan } from "@/lib/scan-runner";
+import { scanCommit } from "@/lib/secret-detection";
+import {
+  getPushScan,
+  verifyWebhookSignature,
+  type PushEvent,
+} from "@/lib/webhooks";
+
+vi.mock("next/server", () => ({ after: vi.fn() }));
+vi.mock("@/lib/github-token", () => ({
+  getGitHubToken: vi.fn(async () => undefined),
+  getServerCredentials: vi.fn(async () => ({})),
+  withGitHubToken: vi.fn((_token: unknown, task: () => unknown) => task()),
+}));
+vi.mock("@/lib/scan-runner", () => ({
+  runStoredScan: vi.fn(async () => ({})),
+}));
+vi.mock("@/lib/check-run", () => ({
+  publishCheckRun: vi.fn(),
+  toCheckRun: vi.fn(),
+}));
+vi.mock("@/lib/pull-request-review", () => ({ reviewPullRequest: vi.fn() }));
+
+/** Secret the recorded deliveries in `fixtures/webhooks` were signed with. */
+const SECRET = "test-webhook-secret";
+const FIXTURES = join(__dirname, "fixtures");
+
+/** A recorded webhook delivery: the raw body and the request headers. */
+function delivery(name: string) {
+  const body = readFileSync(join(FIXTURES, "webhooks", `${name}.json`), "utf8");
+  const headers: Record<string, string> = JSON.parse(
+    readFileSync(join(FIXTURES, "webhooks", `${name}.headers.json`), "utf8")
+  );
+  return { body, headers };
+}
+
+/** A recorded `GET /repos/{owner}/{repo}/commits/{sha}` response. */
+function recordedCommit(sha: string): string {
+  return readFileSync(join(FIXTURES, "github", `commit-${sha}.json`), "utf8");
+}
+
+const LIMITS = { maxDepth: 10, maxFileSize: 1024 * 1024 };
+
+describe("verifyWebhookSignature", () => {
+  it("accepts the signatures of recorded deliveries", () => {
+    for (const name of ["push", "push-delete"]) {
+      const { body, headers } = delivery(name);
+      expect(
+        verifyWebhookSignature(body, headers["x-hub-signature-256"], SECRET)
+      ).toBe(true);
+    }
+  });
+
+  it("matches the example in GitHub's documentation", () => {
+    expect(
+      verifyWebhookSignature(
+        "Hello, World!",
+        "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17",
+        "It's a Secret to Everybody"
+      )
+    ).toBe(true);
+  });
+
+  it("rejects a modified body", () => {
+    const { body, headers } = delivery("push");
+    const tampered = body.replace("feature/billing", "main");
+    expect(
+      verifyWebhookSignature(tampered, headers["x-hub-signature-256"], SECRET)
+    ).toBe(false);
+  });
+
+  it("rejects another secret", () => {
+    const { body, headers } = delivery("push");
+    expect(
+      verifyWebhookSignature(body, headers["x-hub-signature-256"], "other")
+    ).toBe(false);
+  });
+
+  it("rejects missing, unprefixed and truncated signatures", () => {
+    const { body, headers } = delivery("push");
+    const signature = headers["x-hub-signature-256"];
+    expect(verifyWebhookSignature(body, null, SECRET)).toBe(false);
+    expect(
+      verifyWebhookSignature(body, signature.replace("sha256=", ""), SECRET)
+    ).toBe(false);
+    expect(verifyWebhookSignature(body, signature.slice(0, -2), SECRET)).toBe(
+      false
+    );
+  });
+});
+
+describe("getPushScan", () => {
+  it("scans the distinct commits of a push, pinned to the pushed head", () => {
+    const event: PushEvent = JSON.parse(delivery("push").body);
+    expect(getPushScan(event)).toEqual({
+      owner: "acme",
+      repo: "payments",
+      userId: "583231",
+      options: {
+        mode: "history",
+        ref: "7638417db6d59f3c431d3e1f261cc637155684cd",
+        commits: [
+          "6dcb09b5b57875f334f61aebed695e2e4193db5e",
+          "7638417db6d59f3c431d3e1f261cc637155684cd",
+        ],
+      },
+      trigger: "push of 2 commits to feature/billing by octocat",
+    });
+  });
+
+  it("skips deleted refs", () => {
+    const event: PushEvent = JSON.parse(delivery("push-delete").body);
+    expect(getPushScan(event)).toBeNull();
+  });
+
+  it("skips pushes without new commits", () => {
+    const event: PushEvent = JSON.parse(delivery("push").body);
+    event.commits = event.commits.map((commit) => ({
+      ...commit,
+      distinct: false,
+    }));
+    expect(getPushScan(event)).toBeNull();
+  });
+});
+
+describe("scanning pushed commits", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        const sha = url.split("/").pop() ?? "";
+        return new Response(recordedCommit(sha), {
+          headers: { "Content-Type": "application/json" },
+        });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("finds secrets on the lines a commit added", async () => {
+    const event: PushEvent = JSON.parse(delivery("push").body);
+    const [added] = getPushScan(event)!.options.commits!;
+    const commit = await getCommit("acme", "payments", added);
+    const matches = scanCommit(commit, LIMITS);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      file: "config/deploy.env",
+      // After the `++ generated by` line, which is an added line too.
+      line: 3,
+      type: "aws_access_key",
+      match: "AKIAZ7Q3MPLE4RT2XK9D",
+      commitSha: added,
+      commitAuthor: "octocat",
+      commitDate: "2026-10-18T09:10:02Z",
+    });
+  });
+
+  it("ignores removed lines", async () => {
+    const event: PushEvent = JSON.parse(delivery("push").body);
+    const [, removed] = getPushScan(event)!.options.commits!;
+    const commit = await getCommit("acme", "payments", removed);
+    expect(scanCommit(commit, LIMITS)).toEqual([]);
+  });
+});
+
+describe("POST /api/webhooks/github", () => {
+  function request(body: string, headers: Record<string, string>) {
+    return new Request("http://localhost/api/webhooks/github", {
+      method: "POST",
+      headers,
+      body,
+    });
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("GITHUB_WEBHOOK_SECRET", SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a signed push and schedules its scan", async () => {
+    const { body, headers } = delivery("push");
+    const response = await POST(request(body, headers));
+
+    expect(response.status).toBe(202);
+    const { scanId } = await response.json();
+    expect(after).toHaveBeenCalledOnce();
+
+    const [task] = vi.mocked(after).mock.calls[0];
+    await (task as () => Promise<void>)();
+    expect(runStoredScan).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: scanId,
+        owner: "acme",
+        repo: "payments",
+        options: expect.objectContaining({ mode: "history" }),
+      })
+    );
+  });
+
+  it("rejects a delivery with a wrong signature", async () => {
+    const { body, headers } = delivery("push");
+    const response = await POST(
+      request(body.replace("octocat", "mallory"), headers)
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it("acknowledges the deletion of a ref without scanning", async () => {
+    const { body, headers } = delivery("push-delete");
+    const response = await POST(request(body, headers));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ ignored: "nothing to scan" });
+  });
+
+  it("is unavailable without a webhook secret", async () => {
+    vi.stubEnv("GITHUB_WEBHOOK_SECRET", "");
+    const { body, headers } = delivery("push");
+    const response = await POST(request(body, headers));
+    expect(response.status).toBe(503);
+  });
+});
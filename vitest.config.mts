@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@/": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    // next-auth imports `next/server` without an extension, which Node's
+    // ESM resolver cannot find; let Vite resolve it instead.
+    server: { deps: { inline: ["next-auth"] } },
+  },
+});